@@ -1,112 +1,128 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
-import { Tab, Category } from './types';
+import { Tab, Category, AuthUser, Listing, Message, Session, AppNotification, SavedSearch } from './types';
 import Navigation from './components/Navigation';
 import SellFlow from './components/SellFlow';
+import BulkListing from './components/BulkListing';
 import Profile from './components/Profile';
 import Marketplace from './components/Marketplace';
 import Messages from './components/Messages';
 import ItemDetail from './components/ItemDetail';
+import EditListing from './components/EditListing';
 import Login from './components/Login';
-import { supabase, isSupabaseConfigured } from './lib/supabase';
+import ConfigError from './components/ConfigError';
+import OfflineBanner from './components/OfflineBanner';
+import MatchToast from './components/MatchToast';
+import { getSession, onAuthStateChange, ensureProfile, getConversation, subscribeToChanges, getSchemaVersion, flushOfflineQueue, countUnreadNotifications, sendExpiryReminders, getListing, getSavedSearch, SCHEMA_VERSION } from './lib/api';
+import { goBack, navigate, Route, setSearchParams, useRoute, useSearchParams } from './lib/router';
+import { CATEGORIES, formatPreviousPrice } from './components/categories';
+import { savedSearchParams } from './lib/savedSearches';
+import { formatTimeLeft } from './lib/expiry';
+
+const TAB_ROUTES: Record<Tab, Route> = {
+  [Tab.HOME]: { name: 'home' },
+  [Tab.MESSAGES]: { name: 'messages' },
+  [Tab.SELL]: { name: 'sell' },
+  [Tab.PROFILE]: { name: 'profile' }
+};
+
+const tabForRoute = (route: Route): Tab => {
+  switch (route.name) {
+    case 'messages': return Tab.MESSAGES;
+    case 'sell': return Tab.SELL;
+    case 'profile': return Tab.PROFILE;
+    default: return Tab.HOME;
+  }
+};
+
+// Move-out mode, listing many items at once
+const BULK_SLUG = 'bulk';
+
+// Sell routes use the lowercase category name, e.g. /sell/textbooks
+const categoryFromSlug = (slug?: string): Category | null =>
+  CATEGORIES.find(def => def.category.toLowerCase() === slug?.toLowerCase())?.category ?? null;
 
 const App: React.FC = () => {
-  const [session, setSession] = useState<any>(null);
+  const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<Tab>(Tab.HOME);
-  const [selectedCategory, setSelectedCategory] = useState<Category | null>(null);
-  const [viewingItem, setViewingItem] = useState<any>(null);
-  const [openConversationId, setOpenConversationId] = useState<string | null>(null);
+  const route = useRoute();
+  const searchParams = useSearchParams();
+  const activeTab = tabForRoute(route);
+  // Listing the user tapped, so the detail page can render before its own fetch returns
+  const [selectedItem, setSelectedItem] = useState<Listing | null>(null);
   const [unreadCount, setUnreadCount] = useState(0);
+  // Unread alerts (saved-search matches, price drops, expiry reminders), shown
+  // as a dot on the Profile tab
+  const [alertCount, setAlertCount] = useState(0);
+  const [matchToast, setMatchToast] = useState<{ listing: Listing; label: string } | null>(null);
   const [userAvatar, setUserAvatar] = useState<string | undefined>(undefined);
+  const [schemaVersion, setSchemaVersion] = useState<number | null>(null);
 
   useEffect(() => {
-    if (!isSupabaseConfigured) {
-      setLoading(false);
-      return;
-    }
+    getSchemaVersion()
+      .then(setSchemaVersion)
+      .catch((err) => {
+        // Don't block the app on a flaky check; the queries themselves will surface errors
+        console.error('Schema version check failed:', err.message);
+        setSchemaVersion(SCHEMA_VERSION);
+      });
+  }, []);
 
-    supabase.auth.getSession().then(({ data: { session } }) => {
+  useEffect(() => {
+    getSession().then((session) => {
       setSession(session);
       if (session?.user) {
-        ensureProfileExists(session.user);
+        syncProfile(session.user);
       }
       setLoading(false);
+    }).catch((err) => {
+      console.error('Session restore error:', err.message);
+      setLoading(false);
     });
 
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+    return onAuthStateChange((session) => {
       setSession(session);
       if (session?.user) {
-        ensureProfileExists(session.user);
+        syncProfile(session.user);
       } else {
         setUserAvatar(undefined);
       }
     });
-
-    return () => subscription.unsubscribe();
   }, []);
 
-  // "Self-Healing" Profile Logic: Ensures every auth user has a public profile
-  const ensureProfileExists = async (user: any) => {
+  const syncProfile = async (user: AuthUser) => {
     try {
-      // 1. Check if profile exists
-      const { data: profile, error } = await supabase
-        .from('profiles')
-        .select('avatar_url, full_name')
-        .eq('id', user.id)
-        .maybeSingle();
-
-      if (!profile && !error) {
-        // 2. Provision new profile if missing
-        const fullName = user.user_metadata?.full_name || user.email?.split('@')[0] || 'New Comet';
-        const username = user.user_metadata?.username || user.email?.split('@')[0]?.toLowerCase().replace(/[^a-z0-t0-9]/g, '') || `user${user.id.slice(0, 4)}`;
-        const avatarUrl = user.user_metadata?.avatar_url || `https://api.dicebear.com/7.x/avataaars/svg?seed=${user.id}`;
-
-        await supabase.from('profiles').upsert({
-          id: user.id,
-          full_name: fullName,
-          username: username,
-          avatar_url: avatarUrl,
-          updated_at: new Date().toISOString()
-        });
-        
-        setUserAvatar(avatarUrl);
-      } else if (profile) {
-        setUserAvatar(profile.avatar_url);
-      }
+      const profile = await ensureProfile(user);
+      setUserAvatar(profile.avatar_url || undefined);
     } catch (err) {
       console.error('Profile sync error:', err);
     }
   };
 
-  const fetchUserProfile = async (userId: string) => {
-    const { data } = await supabase
-      .from('profiles')
-      .select('avatar_url')
-      .eq('id', userId)
-      .maybeSingle();
-    
-    if (data?.avatar_url) {
-      setUserAvatar(data.avatar_url);
-    }
-  };
-
   useEffect(() => {
     if (!session?.user?.id) return;
 
-    const channel = supabase
-      .channel('nav-avatar-sync')
-      .on('postgres_changes', { 
-        event: 'UPDATE', 
-        schema: 'public', 
-        table: 'profiles',
-        filter: `id=eq.${session.user.id}`
-      }, (payload) => {
+    return subscribeToChanges('nav-avatar-sync', [{
+      event: 'UPDATE',
+      table: 'profiles',
+      filter: `id=eq.${session.user.id}`,
+      onChange: (payload) => {
         if (payload.new.avatar_url) setUserAvatar(payload.new.avatar_url);
-      })
-      .subscribe();
+      }
+    }]);
+  }, [session?.user?.id]);
+
+  // Replay favorites and messages made while offline
+  useEffect(() => {
+    const userId = session?.user?.id;
+    if (!userId) return;
 
-    return () => { supabase.removeChannel(channel); };
+    const flush = () => {
+      flushOfflineQueue(userId).catch((err) => console.error('Offline queue replay error:', err));
+    };
+    flush();
+    window.addEventListener('online', flush);
+    return () => window.removeEventListener('online', flush);
   }, [session?.user?.id]);
 
   const triggerMessageDot = useCallback(() => {
@@ -116,34 +132,73 @@ const App: React.FC = () => {
   useEffect(() => {
     if (!session?.user?.id) return;
 
-    const channel = supabase
-      .channel('global-notifications')
-      .on('postgres_changes', { 
-        event: 'INSERT', 
-        schema: 'public', 
-        table: 'messages' 
-      }, async (payload) => {
-        const newMessage = payload.new;
-        if (newMessage.sender_id !== session.user.id) {
-          const { data: conv } = await supabase
-            .from('conversations')
-            .select('id, buyer_id, seller_id')
-            .eq('id', newMessage.conversation_id)
-            .single();
-
+    return subscribeToChanges('global-notifications', [{
+      event: 'INSERT',
+      table: 'messages',
+      onChange: async (payload) => {
+        const newMessage = payload.new as Message;
+        if (newMessage.sender_id === session.user.id) return;
+        try {
+          const conv = await getConversation(newMessage.conversation_id);
           if (conv && (conv.buyer_id === session.user.id || conv.seller_id === session.user.id)) {
             if (activeTab !== Tab.MESSAGES) {
               triggerMessageDot();
             }
           }
+        } catch (err) {
+          console.error('Notification lookup error:', err);
         }
-      })
-      .subscribe();
+      }
+    }]);
+  }, [session?.user?.id, activeTab, triggerMessageDot]);
 
-    return () => {
-      supabase.removeChannel(channel);
+  useEffect(() => {
+    const userId = session?.user?.id;
+    if (!userId) return;
+
+    const refreshAlertCount = () => {
+      countUnreadNotifications(userId)
+        .then(setAlertCount)
+        .catch((err) => console.error('Notification count error:', err.message));
     };
-  }, [session?.user?.id, activeTab, triggerMessageDot]);
+    refreshAlertCount();
+
+    const unsubscribe = subscribeToChanges('saved-search-alerts', [{
+      event: '*',
+      table: 'notifications',
+      filter: `user_id=eq.${userId}`,
+      onChange: async (payload) => {
+        refreshAlertCount();
+        const notification = payload.new as AppNotification;
+        if (payload.eventType !== 'INSERT' || !notification.listing_id) return;
+        try {
+          if (notification.kind === 'listing_expiring') {
+            const listing = await getListing(notification.listing_id);
+            if (listing?.expires_at) {
+              setMatchToast({ listing, label: `Expires in ${formatTimeLeft(new Date(listing.expires_at).getTime())} · tap to renew` });
+            }
+            return;
+          }
+          if (notification.kind === 'price_drop') {
+            const listing = await getListing(notification.listing_id);
+            const previous = listing && formatPreviousPrice(listing);
+            if (listing && previous) setMatchToast({ listing, label: `Price drop · was ${previous}` });
+            return;
+          }
+          const [listing, search] = await Promise.all([
+            getListing(notification.listing_id),
+            notification.saved_search_id ? getSavedSearch(notification.saved_search_id) : Promise.resolve(null)
+          ]);
+          if (listing) setMatchToast({ listing, label: `New match · ${search?.name ?? 'Saved search'}` });
+        } catch (err) {
+          console.error('Notification lookup error:', err);
+        }
+      }
+    }]);
+    // Any reminders this sends arrive through the subscription above
+    sendExpiryReminders().catch((err) => console.error('Expiry reminder error:', err.message));
+    return unsubscribe;
+  }, [session?.user?.id]);
 
   useEffect(() => {
     if (activeTab === Tab.MESSAGES) {
@@ -151,7 +206,7 @@ const App: React.FC = () => {
     }
   }, [activeTab]);
 
-  if (loading) {
+  if (loading || schemaVersion === null) {
     return (
       <div className="h-screen w-full flex items-center justify-center bg-white">
         <div className="w-12 h-12 border-4 border-orange-500 border-t-transparent rounded-full animate-spin"></div>
@@ -159,82 +214,151 @@ const App: React.FC = () => {
     );
   }
 
+  if (schemaVersion < SCHEMA_VERSION) {
+    return (
+      <ConfigError
+        title="Database Out of Date"
+        hint="This build needs a newer database schema:"
+        issues={[{ key: 'schema_migrations', message: `Database is at version ${schemaVersion}, the app needs ${SCHEMA_VERSION}.` }]}
+        footer="Run `npm run migrate` against your Supabase database, then reload."
+      />
+    );
+  }
+
   if (!session) {
     return <Login />;
   }
 
-  const renderContent = () => {
-    if (viewingItem) {
-      return (
-        <ItemDetail 
-          item={viewingItem} 
-          session={session}
-          onBack={() => setViewingItem(null)}
-          onMessage={(convId) => {
-            setViewingItem(null);
-            setOpenConversationId(convId || null);
-            setActiveTab(Tab.MESSAGES);
-          }}
-        />
-      );
-    }
+  const openItem = (item: Listing) => {
+    setSelectedItem(item);
+    navigate({ name: 'item', id: item.id });
+  };
+
+  const runSavedSearch = (search: SavedSearch) => {
+    navigate({ name: 'home' }, { search: savedSearchParams(search) });
+  };
 
-    switch (activeTab) {
-      case Tab.HOME:
+  const renderContent = () => {
+    switch (route.name) {
+      case 'item':
+        return (
+          <ItemDetail 
+            listingId={route.id}
+            initialItem={selectedItem}
+            session={session}
+            onBack={() => goBack({ name: 'home' })}
+            onMessage={(convId) => navigate({ name: 'messages', conversationId: convId || undefined })}
+            onViewSeller={(username) => navigate({ name: 'user', username })}
+            onSelectItem={openItem}
+            onEdit={(item) => {
+              setSelectedItem(item);
+              navigate({ name: 'edit', id: item.id });
+            }}
+            onViewLocation={(item) => navigate({ name: 'home' }, {
+              search: new URLSearchParams({ category: item.category.toLowerCase(), location: item.location })
+            })}
+          />
+        );
+      case 'edit':
+        return (
+          <EditListing
+            listingId={route.id}
+            initialItem={selectedItem}
+            session={session}
+            onBack={() => goBack({ name: 'item', id: route.id })}
+            onSuccess={() => goBack({ name: 'item', id: route.id })}
+          />
+        );
+      case 'home':
         return (
           <Marketplace 
             session={session} 
-            onSelectItem={setViewingItem} 
+            onSelectItem={openItem} 
           />
         );
-      case Tab.MESSAGES:
+      case 'messages':
         return (
           <Messages 
             session={session} 
-            initialConversationId={openConversationId} 
+            conversationId={route.conversationId}
+            onOpenConversation={(conversationId) => navigate({ name: 'messages', conversationId: conversationId || undefined })}
           />
         );
-      case Tab.SELL:
+      case 'sell':
+        if (route.category === BULK_SLUG) {
+          return (
+            <BulkListing
+              session={session}
+              onBack={() => navigate({ name: 'sell' })}
+              onDone={() => navigate({ name: 'profile' }, { replace: true })}
+            />
+          );
+        }
         return (
           <SellFlow 
-            category={selectedCategory}
-            onSelectCategory={setSelectedCategory}
-            onCancel={() => setActiveTab(Tab.HOME)}
-            onSuccess={() => {
-              setSelectedCategory(null);
-              setActiveTab(Tab.HOME);
-            }}
+            category={categoryFromSlug(route.category)}
+            draftId={searchParams.get('draft') ?? undefined}
+            onSelectCategory={(category) => navigate({ name: 'sell', category: category?.toLowerCase() })}
+            onOpenDraft={(draft) => navigate(
+              { name: 'sell', category: draft.category.toLowerCase() },
+              { search: new URLSearchParams({ draft: draft.id }) }
+            )}
+            onDraftSaved={(draftId) => setSearchParams(new URLSearchParams({ draft: draftId }))}
+            onStartBulk={() => navigate({ name: 'sell', category: BULK_SLUG })}
+            onCancel={() => navigate({ name: 'home' })}
+            onSuccess={() => navigate({ name: 'home' }, { replace: true })}
             session={session}
           />
         );
-      case Tab.PROFILE:
+      case 'user':
         return (
           <Profile 
+            key={route.username}
             session={session} 
-            onSelectItem={setViewingItem}
-            onGoHome={() => setActiveTab(Tab.HOME)}
+            username={route.username}
+            onSelectItem={openItem}
+            onGoHome={() => navigate({ name: 'home' })}
+            onBack={() => goBack({ name: 'home' })}
+          />
+        );
+      case 'profile':
+        return (
+          <Profile 
+            session={session} 
+            alertCount={alertCount}
+            onSelectItem={openItem}
+            onGoHome={() => navigate({ name: 'home' })}
+            onRunSearch={runSavedSearch}
           />
         );
-      default:
-        return null;
     }
   };
 
   return (
     <div className="h-screen w-full max-md:max-w-md mx-auto bg-white relative shadow-2xl overflow-hidden flex flex-col">
+      <OfflineBanner userId={session.user.id} />
+      {matchToast && (
+        <MatchToast
+          listing={matchToast.listing}
+          label={matchToast.label}
+          onOpen={() => {
+            openItem(matchToast.listing);
+            setMatchToast(null);
+          }}
+          onDismiss={() => setMatchToast(null)}
+        />
+      )}
       <div className="flex-1 relative overflow-hidden">
         {renderContent()}
       </div>
       
-      {!viewingItem && (
+      {route.name !== 'item' && (
         <Navigation 
           activeTab={activeTab} 
           unreadCount={unreadCount}
+          alertCount={alertCount}
           userAvatar={userAvatar}
-          onTabChange={(tab) => {
-            setActiveTab(tab);
-            setOpenConversationId(null);
-          }} 
+          onTabChange={(tab) => navigate(TAB_ROUTES[tab])} 
         />
       )}
     </div>
@@ -0,0 +1,532 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { publishListing } from '../lib/api';
+import { config } from '../lib/config';
+import { PICKUP_LOCATIONS } from '../lib/locations';
+import { parseCsvRecords } from '../lib/csv';
+import { Category } from '../types';
+import { CATEGORIES, CategoryDefinition, FieldDefinition, FormValues, getCategoryDefinition, initialValues, toNewListing, validateValues } from './categories';
+import { CONDITIONS } from './categories/fields';
+
+interface BulkListingProps {
+  session: any;
+  onBack: () => void;
+  onDone: () => void;
+}
+
+// Housing needs lease dates and an address, so it is listed one at a time
+const BULK_CATEGORIES = CATEGORIES.filter(def => def.category !== 'Housing');
+
+// Columns of the item table; any other required field gets an input under its row
+const TABLE_FIELDS = ['title', 'price', 'condition', 'location'];
+
+const CSV_TEMPLATE = 'title,category,price,condition,brand,size,isbn,course_code,description\n';
+
+interface BulkPhoto {
+  key: string;
+  file: File;
+  preview: string;
+}
+
+type ItemStatus =
+  | { state: 'idle' }
+  | { state: 'publishing' }
+  | { state: 'published' }
+  | { state: 'failed'; error: string };
+
+interface BulkItem {
+  key: string;
+  photos: BulkPhoto[];
+  // Null follows the shared default
+  category: Category | null;
+  // Only what was typed or imported; the rest comes from the defaults
+  values: FormValues;
+  status: ItemStatus;
+}
+
+interface BulkDefaults {
+  category: Category;
+  condition: string;
+  location: string;
+}
+
+const newKey = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+const fieldOf = (definition: CategoryDefinition, name: string) => definition.fields.find(field => field.name === name);
+
+const optionsOf = (field?: FieldDefinition): string[] =>
+  field && (field.kind === 'select' || field.kind === 'chips') ? field.options : [];
+
+const newItem = (photos: BulkPhoto[], values: FormValues = {}, category: Category | null = null): BulkItem =>
+  ({ key: newKey(), photos, category, values, status: { state: 'idle' } });
+
+const isBlank = (item: BulkItem) => item.photos.length === 0 && Object.values(item.values).every(value => !value.trim());
+
+const toPhoto = (file: File): BulkPhoto => ({ key: newKey(), file, preview: URL.createObjectURL(file) });
+
+// Move-out mode: many photos in, grouped into items, one compact row per item,
+// then everything published in one go. Each item is published on its own, so
+// one failure doesn't hold up the rest.
+const BulkListing: React.FC<BulkListingProps> = ({ session, onBack, onDone }) => {
+  const [items, setItems] = useState<BulkItem[]>([]);
+  const [defaults, setDefaults] = useState<BulkDefaults>({
+    category: BULK_CATEGORIES[0].category,
+    condition: 'Like New',
+    location: PICKUP_LOCATIONS[0]
+  });
+  // Photo keys picked for grouping or moving
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [showErrors, setShowErrors] = useState(false);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  const csvInputRef = useRef<HTMLInputElement>(null);
+
+  // Previews are object URLs; let them go with the screen
+  const latestItems = useRef(items);
+  latestItems.current = items;
+  useEffect(() => () => {
+    latestItems.current.forEach(item => item.photos.forEach(photo => URL.revokeObjectURL(photo.preview)));
+  }, []);
+
+  const definitionFor = (item: BulkItem) => getCategoryDefinition(item.category ?? defaults.category)!;
+
+  const valuesFor = (item: BulkItem): FormValues => {
+    const definition = definitionFor(item);
+    const typed = Object.fromEntries(Object.entries(item.values).filter(([, value]) => value.trim() !== ''));
+    const shared: FormValues = {};
+    if (fieldOf(definition, 'location')) shared.location = defaults.location;
+    if (optionsOf(fieldOf(definition, 'condition')).includes(defaults.condition)) shared.condition = defaults.condition;
+    return { ...initialValues(definition), ...shared, ...typed };
+  };
+
+  const errorFor = (item: BulkItem) => validateValues(definitionFor(item), valuesFor(item), item.photos.length);
+
+  const editable = (item: BulkItem) => !isPublishing && item.status.state !== 'published';
+
+  const updateItem = (key: string, update: (item: BulkItem) => BulkItem) =>
+    setItems(prev => prev.map(item => item.key === key ? update(item) : item));
+
+  const setValue = (key: string, name: string, value: string) =>
+    updateItem(key, item => ({ ...item, values: { ...item.values, [name]: value }, status: { state: 'idle' } }));
+
+  // One new item per photo, to be grouped from there
+  const addPhotos = (files: File[]) => {
+    const images = files.filter(file => file.type.startsWith('image/'));
+    if (images.length > 0) setItems(prev => [...prev, ...images.map(file => newItem([toPhoto(file)]))]);
+  };
+
+  const handleFiles = (files: File[]) => {
+    const csv = files.find(file => file.name.toLowerCase().endsWith('.csv'));
+    if (csv) importCsv(csv);
+    addPhotos(files);
+  };
+
+  const importCsv = async (file: File) => {
+    try {
+      const { headers, records } = parseCsvRecords(await file.text());
+      if (!headers.includes('title') && !headers.includes('name')) {
+        alert('The CSV needs a "title" column.');
+        return;
+      }
+      const known = new Set(['name', 'category', ...BULK_CATEGORIES.flatMap(def => def.fields.map(field => field.name))]);
+      const unknownCategories: number[] = [];
+      const unknownOptions: string[] = [];
+      const imported = records.map((record, i) => {
+        const { category: categoryName = '', name = '', ...rest } = record;
+        const category = BULK_CATEGORIES.find(def => def.category.toLowerCase() === categoryName.toLowerCase())?.category ?? null;
+        if (categoryName && !category) unknownCategories.push(i + 2);
+        const definition = getCategoryDefinition(category ?? defaults.category)!;
+        const values: FormValues = {};
+        Object.entries({ title: name, ...rest }).forEach(([key, value]) => {
+          if (!known.has(key) || !value) return;
+          // Select and chips fields take one of their options, in the form's spelling
+          const options = optionsOf(fieldOf(definition, key));
+          if (options.length === 0) {
+            values[key] = value;
+            return;
+          }
+          const option = options.find(o => o.toLowerCase() === value.toLowerCase());
+          if (option) values[key] = option;
+          else unknownOptions.push(`line ${i + 2}: ${key} "${value}"`);
+        });
+        if (values.price) values.price = values.price.replace(/[$,\s]/g, '');
+        return newItem([], values, category);
+      });
+      setItems(prev => [...prev.filter(item => !isBlank(item)), ...imported]);
+
+      const notes = [`Imported ${imported.length} item${imported.length === 1 ? '' : 's'}.`];
+      const ignored = headers.filter(header => header && !known.has(header));
+      if (ignored.length > 0) notes.push(`Ignored columns: ${ignored.join(', ')}.`);
+      if (unknownCategories.length > 0) notes.push(`Unknown category on line ${unknownCategories.join(', ')}; those use the default.`);
+      if (unknownOptions.length > 0) notes.push(`Not one of the choices (${unknownOptions.join('; ')}); those use the default or need picking.`);
+      if (imported.length > 0) notes.push('Select photos and tap "Move here" on an item to add them.');
+      alert(notes.join('\n'));
+    } catch (err: any) {
+      alert('Error reading CSV: ' + (err.message || 'Unknown error'));
+    } finally {
+      if (csvInputRef.current) csvInputRef.current.value = '';
+    }
+  };
+
+  const togglePhoto = (photoKey: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(photoKey)) next.delete(photoKey);
+      else next.add(photoKey);
+      return next;
+    });
+  };
+
+  const selectedPhotos = () => items.flatMap(item => editable(item) ? item.photos.filter(photo => selected.has(photo.key)) : []);
+
+  const withoutSelected = (item: BulkItem): BulkItem =>
+    editable(item) ? { ...item, photos: item.photos.filter(photo => !selected.has(photo.key)) } : item;
+
+  // Items emptied by a move go away, unless something was typed into them
+  const dropBlank = (list: BulkItem[]) => list.filter(item => !isBlank(item));
+
+  const moveSelectedTo = (key: string) => {
+    const moving = selectedPhotos();
+    const target = items.find(item => item.key === key);
+    if (!target || moving.length === 0) return;
+    const staying = target.photos.filter(photo => !selected.has(photo.key));
+    if (staying.length + moving.length > config.maxPhotos) {
+      alert(`An item can have up to ${config.maxPhotos} photos.`);
+      return;
+    }
+    setItems(prev => dropBlank(prev.map(item => item.key === key ? { ...item, photos: [...staying, ...moving] } : withoutSelected(item))));
+    setSelected(new Set());
+  };
+
+  // The selected photos become one new item, where the first of them was
+  const groupSelected = () => {
+    const moving = selectedPhotos();
+    if (moving.length === 0) return;
+    if (moving.length > config.maxPhotos) {
+      alert(`An item can have up to ${config.maxPhotos} photos.`);
+      return;
+    }
+    const grouped = newItem(moving);
+    setItems((prev) => {
+      const index = prev.findIndex(item => item.photos.some(photo => photo.key === moving[0].key));
+      const next = prev.map(withoutSelected);
+      next.splice(index, 0, grouped);
+      return dropBlank(next);
+    });
+    setSelected(new Set());
+  };
+
+  const deleteSelected = () => {
+    selectedPhotos().forEach(photo => URL.revokeObjectURL(photo.preview));
+    setItems(prev => dropBlank(prev.map(withoutSelected)));
+    setSelected(new Set());
+  };
+
+  // Every photo after the first becomes an item of its own
+  const splitItem = (key: string) => {
+    setItems(prev => prev.flatMap(item => item.key === key
+      ? [{ ...item, photos: item.photos.slice(0, 1) }, ...item.photos.slice(1).map(photo => newItem([photo]))]
+      : [item]));
+  };
+
+  const removeItem = (key: string) => {
+    const item = items.find(i => i.key === key);
+    item?.photos.forEach(photo => URL.revokeObjectURL(photo.preview));
+    setItems(prev => prev.filter(i => i.key !== key));
+  };
+
+  const handlePublish = async () => {
+    setShowErrors(true);
+    const queue = items.filter(item => item.status.state !== 'published');
+    const invalid = queue.filter(item => errorFor(item));
+    if (invalid.length > 0) {
+      alert(`${invalid.length} item${invalid.length === 1 ? ' needs' : 's need'} attention before publishing.`);
+      return;
+    }
+    setSelected(new Set());
+    setIsPublishing(true);
+    // Earlier failures are tried again, so they don't count towards the progress yet
+    setItems(prev => prev.map(item => item.status.state === 'failed' ? { ...item, status: { state: 'idle' } } : item));
+    // One at a time, so the progress is easy to follow and uploads don't compete
+    for (const item of queue) {
+      updateItem(item.key, i => ({ ...i, status: { state: 'publishing' } }));
+      try {
+        const listing = toNewListing(definitionFor(item), valuesFor(item), session.user.id);
+        await publishListing(listing, item.photos.map(photo => photo.file));
+        updateItem(item.key, i => ({ ...i, status: { state: 'published' } }));
+      } catch (err: any) {
+        console.error('Bulk publish error:', err);
+        updateItem(item.key, i => ({ ...i, status: { state: 'failed', error: err.message || 'Unknown error' } }));
+      }
+    }
+    setIsPublishing(false);
+  };
+
+  const publishedCount = items.filter(item => item.status.state === 'published').length;
+  const failedCount = items.filter(item => item.status.state === 'failed').length;
+  const finishedCount = publishedCount + failedCount;
+  const allPublished = items.length > 0 && publishedCount === items.length;
+  const inputClass = 'w-full p-3 bg-gray-50 border border-gray-100 rounded-xl focus:ring-2 focus:ring-orange-500 outline-none transition-all text-xs font-bold disabled:opacity-60';
+  const labelClass = 'text-[10px] font-black text-gray-400 uppercase tracking-widest';
+
+  return (
+    <div className="flex flex-col h-full bg-white">
+      <div className="bg-orange-600 p-6 flex items-start space-x-4 text-white pt-14">
+        <button onClick={onBack} disabled={isPublishing} className="bg-white/20 p-2 rounded-full active:scale-90 transition-transform disabled:opacity-50">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <div>
+          <h1 className="text-xl font-black uppercase tracking-tight">Bulk Listing</h1>
+          <p className="text-white/80 text-[10px] font-bold uppercase tracking-widest">
+            {items.length === 0 ? 'List your whole move-out sale at once' : `${items.length} item${items.length === 1 ? '' : 's'}`}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-6 pb-40 no-scrollbar">
+        <div className="space-y-2">
+          <p className={labelClass}>Defaults for every item</p>
+          <div className="grid grid-cols-3 gap-2">
+            <select
+              value={defaults.category}
+              onChange={(e) => setDefaults(prev => ({ ...prev, category: e.target.value as Category }))}
+              disabled={isPublishing}
+              className={`${inputClass} appearance-none`}
+            >
+              {BULK_CATEGORIES.map(def => <option key={def.category} value={def.category}>{def.category}</option>)}
+            </select>
+            <select
+              value={defaults.condition}
+              onChange={(e) => setDefaults(prev => ({ ...prev, condition: e.target.value }))}
+              disabled={isPublishing}
+              className={`${inputClass} appearance-none`}
+            >
+              {CONDITIONS.map(condition => <option key={condition} value={condition}>{condition}</option>)}
+            </select>
+            <select
+              value={defaults.location}
+              onChange={(e) => setDefaults(prev => ({ ...prev, location: e.target.value }))}
+              disabled={isPublishing}
+              className={`${inputClass} appearance-none`}
+            >
+              {PICKUP_LOCATIONS.map(location => <option key={location} value={location}>{location}</option>)}
+            </select>
+          </div>
+        </div>
+
+        <div
+          onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setIsDragging(false);
+            if (!isPublishing) handleFiles(Array.from(e.dataTransfer.files) as File[]);
+          }}
+          className={`rounded-3xl border-2 border-dashed p-6 text-center space-y-3 transition-all ${isDragging ? 'border-orange-400 bg-orange-50' : 'border-gray-200 bg-gray-50'}`}
+        >
+          <p className="text-xs font-bold text-gray-500">Drop photos here, one or many per item</p>
+          <div className="flex justify-center space-x-2">
+            <button
+              onClick={() => photoInputRef.current?.click()}
+              disabled={isPublishing}
+              className="px-4 py-2 rounded-xl bg-white shadow-sm text-[10px] font-black text-orange-600 uppercase tracking-widest active:scale-95 transition-all disabled:opacity-50"
+            >
+              Add Photos
+            </button>
+            <button
+              onClick={() => csvInputRef.current?.click()}
+              disabled={isPublishing}
+              className="px-4 py-2 rounded-xl bg-white shadow-sm text-[10px] font-black text-gray-500 uppercase tracking-widest active:scale-95 transition-all disabled:opacity-50"
+            >
+              Import CSV
+            </button>
+          </div>
+          <a
+            href={`data:text/csv;charset=utf-8,${encodeURIComponent(CSV_TEMPLATE)}`}
+            download="hucksta-items.csv"
+            className="block text-[10px] font-bold text-gray-400 underline"
+          >
+            CSV template
+          </a>
+          <input
+            type="file"
+            ref={photoInputRef}
+            onChange={(e) => {
+              addPhotos(Array.from(e.target.files || []) as File[]);
+              e.target.value = '';
+            }}
+            accept="image/*"
+            multiple
+            className="hidden"
+          />
+          <input
+            type="file"
+            ref={csvInputRef}
+            onChange={(e) => { const file = e.target.files?.[0]; if (file) importCsv(file); }}
+            accept=".csv,text/csv"
+            className="hidden"
+          />
+        </div>
+
+        <div className="space-y-3">
+          {items.map((item, index) => {
+            const definition = definitionFor(item);
+            const values = valuesFor(item);
+            const locked = !editable(item);
+            const error = showErrors && item.status.state !== 'published' ? errorFor(item) : null;
+            const conditionOptions = optionsOf(fieldOf(definition, 'condition'));
+            const extraFields = definition.fields.filter(field => field.required && !TABLE_FIELDS.includes(field.name));
+            return (
+              <div
+                key={item.key}
+                className={`rounded-3xl border p-3 space-y-2 transition-all ${item.status.state === 'published' ? 'border-green-200 bg-green-50/40' : error || item.status.state === 'failed' ? 'border-red-200' : 'border-gray-100'}`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className={labelClass}>Item {index + 1}</span>
+                  {!locked && (
+                    <div className="flex items-center space-x-3">
+                      {selected.size > 0 && (
+                        <button onClick={() => moveSelectedTo(item.key)} className="text-[10px] font-black text-orange-600 uppercase tracking-widest">
+                          Move here
+                        </button>
+                      )}
+                      {item.photos.length > 1 && (
+                        <button onClick={() => splitItem(item.key)} className="text-[10px] font-black text-gray-400 uppercase tracking-widest">
+                          Split
+                        </button>
+                      )}
+                      <button onClick={() => removeItem(item.key)} aria-label="Remove item" className="text-gray-300 hover:text-red-500">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" /></svg>
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex space-x-2 overflow-x-auto no-scrollbar">
+                  {item.photos.map((photo, photoIdx) => (
+                    <button
+                      key={photo.key}
+                      onClick={() => !locked && togglePhoto(photo.key)}
+                      className={`relative flex-shrink-0 rounded-2xl overflow-hidden border-2 transition-all ${selected.has(photo.key) ? 'border-orange-500 scale-95' : 'border-transparent'}`}
+                    >
+                      <img src={photo.preview} alt="" className="w-16 h-16 object-cover" />
+                      {photoIdx === 0 && item.photos.length > 1 && (
+                        <span className="absolute top-1 left-1 bg-white/95 px-1 rounded text-[7px] font-black text-gray-700 uppercase">Cover</span>
+                      )}
+                    </button>
+                  ))}
+                  {item.photos.length === 0 && (
+                    <div className="w-16 h-16 rounded-2xl bg-gray-50 border border-dashed border-gray-200 flex items-center justify-center text-[8px] font-black text-gray-300 uppercase text-center px-1">
+                      No photos
+                    </div>
+                  )}
+                </div>
+
+                <input
+                  value={item.values.title ?? ''}
+                  onChange={(e) => setValue(item.key, 'title', e.target.value)}
+                  placeholder="Item name"
+                  disabled={locked}
+                  className={inputClass}
+                />
+                <div className="grid grid-cols-3 gap-2">
+                  <select
+                    value={item.category ?? ''}
+                    onChange={(e) => updateItem(item.key, i => ({ ...i, category: (e.target.value || null) as Category | null, status: { state: 'idle' } }))}
+                    disabled={locked}
+                    className={`${inputClass} appearance-none`}
+                  >
+                    <option value="">{defaults.category}</option>
+                    {BULK_CATEGORIES.filter(def => def.category !== defaults.category).map(def => (
+                      <option key={def.category} value={def.category}>{def.category}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={item.values.price ?? ''}
+                    onChange={(e) => setValue(item.key, 'price', e.target.value)}
+                    placeholder="$0.00"
+                    disabled={locked}
+                    className={inputClass}
+                  />
+                  {conditionOptions.length > 0 && (
+                    <select
+                      value={values.condition ?? ''}
+                      onChange={(e) => setValue(item.key, 'condition', e.target.value)}
+                      disabled={locked}
+                      className={`${inputClass} appearance-none`}
+                    >
+                      {conditionOptions.map(option => <option key={option} value={option}>{option}</option>)}
+                    </select>
+                  )}
+                </div>
+                {extraFields.map(field => (
+                  <input
+                    key={field.name}
+                    value={item.values[field.name] ?? ''}
+                    onChange={(e) => setValue(item.key, field.name, e.target.value)}
+                    placeholder={`${field.label} *`}
+                    disabled={locked}
+                    className={inputClass}
+                  />
+                ))}
+
+                {item.status.state === 'publishing' ? (
+                  <p className="text-[10px] font-black text-orange-500 uppercase tracking-widest">Publishing...</p>
+                ) : item.status.state === 'published' ? (
+                  <p className="text-[10px] font-black text-green-600 uppercase tracking-widest">Listed</p>
+                ) : item.status.state === 'failed' ? (
+                  <p className="text-[11px] font-bold text-red-500">Not listed: {item.status.error}</p>
+                ) : error && (
+                  <p className="text-[11px] font-bold text-red-500">{error}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="absolute bottom-0 left-0 right-0 p-4 pb-24 bg-gradient-to-t from-white via-white to-white/0 space-y-2">
+        {selected.size > 0 && !isPublishing ? (
+          <div className="flex items-center justify-between bg-gray-900 text-white rounded-2xl px-4 py-3 shadow-xl">
+            <span className="text-[10px] font-black uppercase tracking-widest">{selected.size} selected</span>
+            <div className="flex space-x-4">
+              <button onClick={groupSelected} className="text-[10px] font-black uppercase tracking-widest text-orange-400">Group</button>
+              <button onClick={deleteSelected} className="text-[10px] font-black uppercase tracking-widest text-red-400">Delete</button>
+              <button onClick={() => setSelected(new Set())} className="text-[10px] font-black uppercase tracking-widest text-gray-400">Clear</button>
+            </div>
+          </div>
+        ) : allPublished ? (
+          <button onClick={onDone} className="w-full bg-green-600 text-white font-black py-5 rounded-[2rem] shadow-xl active:scale-[0.98] transition-all uppercase tracking-widest text-sm">
+            All {items.length} Listed · Done
+          </button>
+        ) : (
+          <>
+            {isPublishing && (
+              <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                <div className="h-full bg-orange-500 transition-all" style={{ width: `${(finishedCount / items.length) * 100}%` }} />
+              </div>
+            )}
+            <button
+              onClick={handlePublish}
+              disabled={isPublishing || items.length === publishedCount}
+              className="w-full bg-orange-600 text-white font-black py-5 rounded-[2rem] shadow-xl active:scale-[0.98] transition-all uppercase tracking-widest text-sm disabled:opacity-50"
+            >
+              {isPublishing
+                ? `Publishing ${Math.min(finishedCount + 1, items.length)} of ${items.length}...`
+                : failedCount > 0
+                  ? `Retry ${items.length - publishedCount} Item${items.length - publishedCount === 1 ? '' : 's'}`
+                  : `Publish ${items.length - publishedCount} Item${items.length - publishedCount === 1 ? '' : 's'}`}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BulkListing;
@@ -0,0 +1,89 @@
+import React, { useState, useEffect } from 'react';
+import { listConversationThreads, listProfiles, defaultAvatarUrl } from '../lib/api';
+import { Listing, ListingStatus, Profile } from '../types';
+
+interface BuyerPickerProps {
+  listing: Listing;
+  status: Exclude<ListingStatus, 'available'>;
+  onPick: (buyerId: string | null) => void;
+  onClose: () => void;
+}
+
+interface Candidate {
+  userId: string;
+  profile?: Profile;
+  // Their chat started from this listing
+  aboutThisListing: boolean;
+}
+
+// Lets the seller say who bought the item, from the people they've chatted with
+const BuyerPicker: React.FC<BuyerPickerProps> = ({ listing, status, onPick, onClose }) => {
+  const [candidates, setCandidates] = useState<Candidate[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const threads = await listConversationThreads(listing.seller_id);
+        const profiles = await listProfiles(threads.map(t => t.other_user_id));
+        const rows = threads.map(thread => ({
+          userId: thread.other_user_id,
+          profile: profiles.find(p => p.id === thread.other_user_id),
+          aboutThisListing: thread.listing_id === listing.id
+        }));
+        // People who asked about this listing first, otherwise most recent chat first
+        rows.sort((a, b) => Number(b.aboutThisListing) - Number(a.aboutThisListing));
+        if (!cancelled) setCandidates(rows);
+      } catch (err: any) {
+        console.error('Error loading buyers:', err.message || err);
+        if (!cancelled) setCandidates([]);
+      }
+    };
+    load();
+    return () => { cancelled = true; };
+  }, [listing.id, listing.seller_id]);
+
+  return (
+    <div className="absolute inset-0 z-[70] bg-black/40 flex items-end animate-in fade-in duration-200" onClick={onClose}>
+      <div className="bg-white w-full max-h-[75%] rounded-t-[2rem] flex flex-col animate-in slide-in-from-bottom duration-300" onClick={(e) => e.stopPropagation()}>
+        <div className="px-6 pt-6 pb-4 border-b border-gray-50">
+          <h2 className="text-xl font-black text-gray-900 tracking-tight">{status === 'sold' ? 'Who bought it?' : 'Who is buying it?'}</h2>
+          <p className="text-[10px] text-gray-400 font-bold uppercase tracking-widest mt-1">Optional · pick from your chats</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto no-scrollbar px-4 py-3 space-y-2">
+          {candidates === null ? (
+            <div className="flex justify-center py-10">
+              <div className="w-6 h-6 border-4 border-orange-500 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : candidates.length === 0 ? (
+            <p className="text-center text-xs text-gray-400 font-medium py-8">No conversations yet</p>
+          ) : candidates.map(({ userId, profile, aboutThisListing }) => (
+            <button
+              key={userId}
+              onClick={() => onPick(userId)}
+              className="w-full flex items-center space-x-3 p-2 rounded-2xl hover:bg-gray-50 active:scale-[0.98] transition-all text-left"
+            >
+              <img src={profile?.avatar_url || defaultAvatarUrl(userId)} alt="" className="w-10 h-10 rounded-xl bg-orange-100 object-cover" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-bold text-gray-900 truncate">{profile?.full_name || (profile?.username ? `@${profile.username}` : 'Student')}</p>
+                {aboutThisListing && <p className="text-[9px] font-black text-[#F15A24] uppercase tracking-widest">Asked about this item</p>}
+              </div>
+            </button>
+          ))}
+        </div>
+
+        <div className="p-4 border-t border-gray-50">
+          <button
+            onClick={() => onPick(null)}
+            className="w-full py-4 rounded-2xl bg-[#F6F7F9] text-[10px] font-black text-[#707E8C] uppercase tracking-widest active:scale-95 transition-all"
+          >
+            Skip
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BuyerPicker;
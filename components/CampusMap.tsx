@@ -0,0 +1,84 @@
+import React from 'react';
+import { CAMPUS_LOCATIONS, CampusLocation, MAP_SIZE, MapCluster, projectToMap } from '../lib/locations';
+
+interface CampusMapProps {
+  // Listing counts to pin, grouped by clusterLocations
+  clusters?: MapCluster[];
+  // Location names the feed is filtered to
+  selected?: string[];
+  // A single spot to mark, e.g. a listing's pickup
+  highlight?: CampusLocation;
+  onSelectCluster?: (cluster: MapCluster) => void;
+  className?: string;
+}
+
+// A schematic of the UTD campus drawn from the coordinates in lib/locations,
+// bundled with the app so the map works offline and needs no maps API
+const CampusMap: React.FC<CampusMapProps> = ({ clusters = [], selected = [], highlight, onSelectCluster, className = '' }) => {
+  const { width, height } = MAP_SIZE;
+  const mall = { ...projectToMap({ lat: 32.9876, lng: -96.7495 }), end: projectToMap({ lat: 32.9862, lng: -96.7480 }) };
+  const marked = highlight ? projectToMap(highlight) : null;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className={`w-full h-auto select-none ${className}`} role="img" aria-label="Campus map">
+      <rect width={width} height={height} rx={28} fill="#F6F7F9" />
+
+      {/* Perimeter roads and the inner loop */}
+      <rect x={14} y={14} width={width - 28} height={height - 28} rx={26} fill="none" stroke="#E4E7EB" strokeWidth={8} />
+      <path d="M70 70 H330 Q350 70 350 90 V280 Q350 300 330 300 H70 Q50 300 50 280 V90 Q50 70 70 70 Z" fill="none" stroke="#ECEEF1" strokeWidth={5} />
+      <path d="M50 190 H350 M200 70 V300" fill="none" stroke="#F0F1F4" strokeWidth={3} strokeDasharray="2 6" />
+
+      {/* Central mall */}
+      <rect x={mall.x} y={mall.y} width={mall.end.x - mall.x} height={mall.end.y - mall.y} rx={10} fill="#E3F1E4" />
+
+      {CAMPUS_LOCATIONS.map((location) => {
+        const { x, y } = projectToMap(location);
+        const isActive = selected.includes(location.name) || highlight?.id === location.id;
+        return (
+          <g key={location.id}>
+            <rect x={x - 12} y={y - 8} width={24} height={16} rx={4} fill={isActive ? '#FFE3D6' : '#E4E7EB'} />
+            {!highlight && (
+              <text x={x} y={y + 18} textAnchor="middle" fontSize={7} fontWeight={800} fill="#A0A8B1" style={{ textTransform: 'uppercase', letterSpacing: '0.05em' }}>
+                {location.shortName}
+              </text>
+            )}
+          </g>
+        );
+      })}
+
+      {clusters.map((cluster) => {
+        const isActive = cluster.locations.some(location => selected.includes(location.name));
+        const r = 10 + Math.min(cluster.count, 40) / 4;
+        return (
+          <g
+            key={cluster.locations.map(l => l.id).join('+')}
+            onClick={() => onSelectCluster?.(cluster)}
+            className={onSelectCluster ? 'cursor-pointer' : ''}
+          >
+            <circle cx={cluster.x} cy={cluster.y} r={r + 4} fill={isActive ? '#1A1A1A' : '#F15A24'} opacity={0.15} />
+            <circle cx={cluster.x} cy={cluster.y} r={r} fill={isActive ? '#1A1A1A' : '#F15A24'} stroke="white" strokeWidth={2.5} />
+            <text x={cluster.x} y={cluster.y + 3.5} textAnchor="middle" fontSize={10} fontWeight={900} fill="white">
+              {cluster.count}
+            </text>
+          </g>
+        );
+      })}
+
+      {marked && (
+        <g>
+          <circle cx={marked.x} cy={marked.y} r={18} fill="#F15A24" opacity={0.15} className="animate-pulse" />
+          <path
+            d={`M${marked.x} ${marked.y} l-9 -14 a10.5 10.5 0 1 1 18 0 z`}
+            fill="#F15A24"
+            stroke="white"
+            strokeWidth={2}
+            strokeLinejoin="round"
+          />
+          <circle cx={marked.x} cy={marked.y - 20} r={3.5} fill="white" />
+        </g>
+      )}
+    </svg>
+  );
+};
+
+export default CampusMap;
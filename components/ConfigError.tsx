@@ -0,0 +1,42 @@
+
+import React from 'react';
+import { ConfigIssue } from '../lib/config';
+
+interface ConfigErrorProps {
+  issues: ConfigIssue[];
+  title?: string;
+  hint?: string;
+  footer?: string;
+}
+
+const ConfigError: React.FC<ConfigErrorProps> = ({
+  issues,
+  title = 'Configuration Needed',
+  hint = 'Fix these values in your .env file and restart the dev server:',
+  footer = 'See .env.example for every supported setting.'
+}) => {
+  return (
+    <div className="h-screen w-full max-md:max-w-md mx-auto bg-gray-50 flex flex-col justify-center p-6">
+      <div className="bg-white rounded-[2.5rem] p-8 flex flex-col items-center text-center space-y-4 shadow-xl border border-orange-100">
+        <div className="w-16 h-16 bg-orange-100 rounded-full flex items-center justify-center text-orange-600 flex-shrink-0">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+          </svg>
+        </div>
+        <h2 className="text-xl font-black text-gray-800 uppercase tracking-tight">{title}</h2>
+        <p className="text-[10px] text-gray-400 font-bold uppercase tracking-widest px-4">{hint}</p>
+        <ul className="w-full space-y-2 text-left">
+          {issues.map((issue) => (
+            <li key={issue.key} className="bg-gray-50 border border-gray-100 rounded-2xl px-4 py-3">
+              <p className="text-[10px] font-black text-orange-600 uppercase tracking-widest font-mono">{issue.key}</p>
+              <p className="text-xs font-bold text-gray-700">{issue.message}</p>
+            </li>
+          ))}
+        </ul>
+        <p className="text-[10px] text-gray-400 font-medium">{footer}</p>
+      </div>
+    </div>
+  );
+};
+
+export default ConfigError;
@@ -0,0 +1,61 @@
+import React, { useState, useEffect } from 'react';
+import { getListing } from '../lib/api';
+import { Listing } from '../types';
+import ListingForm from './ListingForm';
+import { getCategoryDefinition } from './categories';
+
+interface EditListingProps {
+  listingId: string;
+  // Already-loaded copy, e.g. from the detail page
+  initialItem?: Listing | null;
+  session: any;
+  onBack: () => void;
+  onSuccess: () => void;
+}
+
+// The category form, pre-filled from a listing the user owns
+const EditListing: React.FC<EditListingProps> = ({ listingId, initialItem, session, onBack, onSuccess }) => {
+  const [item, setItem] = useState<Listing | null>(initialItem?.id === listingId ? initialItem : null);
+  const [notFound, setNotFound] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getListing(listingId)
+      .then((listing) => {
+        if (cancelled) return;
+        if (listing) setItem(listing);
+        else setNotFound(true);
+      })
+      .catch((err) => {
+        console.error('Error loading listing:', err.message || err);
+        if (!cancelled) setNotFound(true);
+      });
+    return () => { cancelled = true; };
+  }, [listingId]);
+
+  const definition = item ? getCategoryDefinition(item.category) : undefined;
+
+  if (notFound || (item && (item.seller_id !== session?.user?.id || !definition))) {
+    return (
+      <div className="h-full bg-white flex flex-col items-center justify-center px-10 text-center space-y-4">
+        <p className="text-lg font-black text-gray-900">Can't edit this listing</p>
+        <p className="text-xs text-gray-400 font-medium">It may have been removed, or it belongs to someone else.</p>
+        <button onClick={onBack} className="bg-orange-600 px-6 py-3 rounded-2xl text-white text-xs font-black uppercase tracking-widest active:scale-95 transition-all">
+          Go Back
+        </button>
+      </div>
+    );
+  }
+
+  if (!item || !definition) {
+    return (
+      <div className="h-full w-full flex items-center justify-center bg-white">
+        <div className="w-8 h-8 border-4 border-orange-500 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  return <ListingForm key={item.id} definition={definition} listing={item} onBack={onBack} onSuccess={onSuccess} session={session} />;
+};
+
+export default EditListing;
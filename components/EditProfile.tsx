@@ -1,6 +1,6 @@
 
 import React, { useState, useRef } from 'react';
-import { supabase } from '../lib/supabase';
+import { isUsernameTaken, uploadAvatar, updateUserMetadata, upsertProfile } from '../lib/api';
 
 interface EditProfileProps {
   onBack: () => void;
@@ -50,15 +50,13 @@ const EditProfile: React.FC<EditProfileProps> = ({ onBack, user, session }) => {
     setIsSaving(true);
     try {
       // 1. Check if username is already taken by SOMEONE ELSE
-      const { data: existingUser, error: checkError } = await supabase
-        .from('profiles')
-        .select('id')
-        .eq('username', cleanUsername)
-        .neq('id', session.user.id)
-        .maybeSingle();
-
-      if (checkError) console.warn('Username check failed, proceeding anyway...', checkError);
-      if (existingUser) {
+      let usernameTaken = false;
+      try {
+        usernameTaken = await isUsernameTaken(cleanUsername, session.user.id);
+      } catch (checkError) {
+        console.warn('Username check failed, proceeding anyway...', checkError);
+      }
+      if (usernameTaken) {
         throw new Error('This username is already taken by another student.');
       }
 
@@ -66,54 +64,38 @@ const EditProfile: React.FC<EditProfileProps> = ({ onBack, user, session }) => {
 
       // 2. Handle Image Upload
       if (selectedFile) {
-        const fileExt = selectedFile.name.split('.').pop();
-        const fileName = `${session.user.id}-${Date.now()}.${fileExt}`;
-        const filePath = `${fileName}`;
-        
-        const { error: uploadError } = await supabase.storage
-          .from('avatars')
-          .upload(filePath, selectedFile, { upsert: true });
-        
-        if (uploadError) {
+        try {
+          avatarUrl = await uploadAvatar(session.user.id, selectedFile);
+        } catch (uploadError: any) {
           console.error('Storage Upload Error:', uploadError);
           throw new Error(`Avatar upload failed: ${uploadError.message}`);
         }
-        
-        const { data: { publicUrl } } = supabase.storage
-          .from('avatars')
-          .getPublicUrl(filePath);
-          
-        avatarUrl = publicUrl;
       }
 
       const fullName = `${firstName} ${lastName}`.trim();
 
       // 3. Update Auth metadata
-      const { error: authError } = await supabase.auth.updateUser({
-        data: {
+      try {
+        await updateUserMetadata({
           full_name: fullName,
           avatar_url: avatarUrl,
           first_name: firstName,
           last_name: lastName,
           username: cleanUsername
-        }
-      });
-      if (authError) console.warn('Auth metadata sync failed:', authError.message);
+        });
+      } catch (authError: any) {
+        console.warn('Auth metadata sync failed:', authError.message);
+      }
 
       // 4. Update Public Profile Table
-      const profileData = {
-        id: session.user.id,
-        full_name: fullName,
-        avatar_url: avatarUrl,
-        username: cleanUsername,
-        updated_at: new Date().toISOString()
-      };
-
-      const { error: profileError } = await supabase
-        .from('profiles')
-        .upsert(profileData, { onConflict: 'id' });
-      
-      if (profileError) {
+      try {
+        await upsertProfile({
+          id: session.user.id,
+          full_name: fullName,
+          avatar_url: avatarUrl,
+          username: cleanUsername
+        });
+      } catch (profileError) {
         console.error('Database Upsert Error:', profileError);
         throw profileError;
       }
@@ -130,9 +112,9 @@ const EditProfile: React.FC<EditProfileProps> = ({ onBack, user, session }) => {
       else if (err.error_description) msg = err.error_description;
       else msg = JSON.stringify(err);
 
-      if (msg.includes('row-level security') || msg.includes('42501')) {
+      if (msg.includes('row-level security') || err.code === '42501') {
         alert('Database Access Denied (RLS). Please ensure you have run the latest SQL fix script in your Supabase dashboard.');
-      } else if (msg.includes('duplicate key') || msg.includes('23505')) {
+      } else if (msg.includes('duplicate key') || err.code === '23505') {
         alert('That username is already taken. Please try another one.');
       } else {
         alert('Update Failed: ' + msg);
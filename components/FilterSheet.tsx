@@ -0,0 +1,200 @@
+import React from 'react';
+import { Gender } from '../types';
+import { CONDITIONS } from './categories/fields';
+import {
+  Facet,
+  FeedFilters,
+  EMPTY_FILTERS,
+  POSTED_WITHIN_OPTIONS,
+  SORT_OPTIONS,
+  FacetCounts,
+  activeFilterCount,
+  locationOptions,
+  sizeOptions
+} from '../lib/feedFilters';
+
+const GENDERS: Gender[] = ['Mens', 'Womens', 'Unisex'];
+
+interface FilterSheetProps {
+  filters: FeedFilters;
+  // Facets that apply to the listings on screen
+  facets: Facet[];
+  // Live counts for the current filters; null while they load
+  counts: FacetCounts | null;
+  isSearching: boolean;
+  onChange: (filters: FeedFilters) => void;
+  onClose: () => void;
+}
+
+const toggle = (values: string[], value: string) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+const Chip: React.FC<{ label: string; count?: number; active: boolean; onClick: () => void }> = ({ label, count, active, onClick }) => (
+  <button
+    onClick={onClick}
+    disabled={!active && count === 0}
+    className={`px-4 py-2.5 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all active:scale-95 disabled:opacity-30 ${
+      active ? 'bg-[#F15A24] text-white shadow-md shadow-orange-100' : 'bg-[#F6F7F9] text-[#707E8C]'
+    }`}
+  >
+    {label}{count != null && <span className={active ? 'text-white/70' : 'text-gray-400'}> {count}</span>}
+  </button>
+);
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="space-y-3">
+    <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest">{title}</p>
+    <div className="flex flex-wrap gap-2">{children}</div>
+  </div>
+);
+
+const FilterSheet: React.FC<FilterSheetProps> = ({ filters, facets, counts, isSearching, onChange, onClose }) => {
+  const update = (patch: Partial<FeedFilters>) => onChange({ ...filters, ...patch });
+
+  // Selected options stay listed even when nothing matches them any more
+  const sizes = sizeOptions([...Object.keys(counts?.size ?? {}), ...filters.sizes]);
+  const locations = locationOptions([...Object.keys(counts?.location ?? {}), ...filters.locations]);
+
+  const priceInputClass = 'w-full bg-[#F6F7F9] rounded-2xl py-3 px-4 text-xs font-semibold focus:outline-none border border-transparent focus:border-orange-100';
+
+  return (
+    <div className="absolute inset-0 z-[70] bg-black/40 flex items-end animate-in fade-in duration-200" onClick={onClose}>
+      <div className="bg-white w-full max-h-[85%] rounded-t-[2rem] flex flex-col animate-in slide-in-from-bottom duration-300" onClick={(e) => e.stopPropagation()}>
+        <div className="px-6 pt-6 pb-4 flex items-center justify-between border-b border-gray-50">
+          <h2 className="text-xl font-black text-gray-900 tracking-tight">Filters</h2>
+          <button onClick={onClose} className="p-2 -mr-2 text-gray-400">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto no-scrollbar px-6 py-5 space-y-6">
+          <Section title="Sort By">
+            {isSearching && (
+              <Chip label="Best Match" active={filters.sort === null} onClick={() => update({ sort: null })} />
+            )}
+            {SORT_OPTIONS.map(option => (
+              <Chip
+                key={option.value}
+                label={option.label}
+                active={filters.sort === option.value || (!isSearching && filters.sort === null && option.value === 'newest')}
+                onClick={() => update({ sort: option.value })}
+              />
+            ))}
+          </Section>
+
+          {facets.includes('price') && (
+            <div className="space-y-3">
+              <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Price</p>
+              <div className="flex items-center space-x-3">
+                <input
+                  type="number"
+                  min={0}
+                  placeholder="Min $"
+                  value={filters.minPrice ?? ''}
+                  onChange={(e) => update({ minPrice: e.target.value === '' ? null : Math.max(0, Number(e.target.value)) })}
+                  className={priceInputClass}
+                />
+                <span className="text-gray-300 font-black">–</span>
+                <input
+                  type="number"
+                  min={0}
+                  placeholder="Max $"
+                  value={filters.maxPrice ?? ''}
+                  onChange={(e) => update({ maxPrice: e.target.value === '' ? null : Math.max(0, Number(e.target.value)) })}
+                  className={priceInputClass}
+                />
+              </div>
+            </div>
+          )}
+
+          {facets.includes('condition') && (
+            <Section title="Condition">
+              {CONDITIONS.map(condition => (
+                <Chip
+                  key={condition}
+                  label={condition}
+                  count={counts ? counts.condition[condition] ?? 0 : undefined}
+                  active={filters.conditions.includes(condition)}
+                  onClick={() => update({ conditions: toggle(filters.conditions, condition) })}
+                />
+              ))}
+            </Section>
+          )}
+
+          {facets.includes('size') && sizes.length > 0 && (
+            <Section title="Size">
+              {sizes.map(size => (
+                <Chip
+                  key={size}
+                  label={size}
+                  count={counts ? counts.size[size] ?? 0 : undefined}
+                  active={filters.sizes.includes(size)}
+                  onClick={() => update({ sizes: toggle(filters.sizes, size) })}
+                />
+              ))}
+            </Section>
+          )}
+
+          {facets.includes('gender') && (
+            <Section title="Gender">
+              {GENDERS.map(gender => (
+                <Chip
+                  key={gender}
+                  label={gender}
+                  count={counts ? counts.gender[gender] ?? 0 : undefined}
+                  active={filters.genders.includes(gender)}
+                  onClick={() => update({ genders: toggle(filters.genders, gender) })}
+                />
+              ))}
+            </Section>
+          )}
+
+          {facets.includes('location') && locations.length > 0 && (
+            <Section title="Location">
+              {locations.map(location => (
+                <Chip
+                  key={location}
+                  label={location}
+                  count={counts ? counts.location[location] ?? 0 : undefined}
+                  active={filters.locations.includes(location)}
+                  onClick={() => update({ locations: toggle(filters.locations, location) })}
+                />
+              ))}
+            </Section>
+          )}
+
+          {facets.includes('postedWithin') && (
+            <Section title="Posted Within">
+              {POSTED_WITHIN_OPTIONS.map(option => (
+                <Chip
+                  key={option.value}
+                  label={option.label}
+                  count={counts ? counts.postedWithin[option.value] ?? 0 : undefined}
+                  active={filters.postedWithin === option.value}
+                  onClick={() => update({ postedWithin: filters.postedWithin === option.value ? null : option.value })}
+                />
+              ))}
+            </Section>
+          )}
+        </div>
+
+        <div className="p-4 pb-8 border-t border-gray-100 flex space-x-3">
+          <button
+            onClick={() => onChange({ ...EMPTY_FILTERS, sort: filters.sort })}
+            disabled={activeFilterCount(filters) === 0}
+            className="flex-1 bg-white border-2 border-orange-600 text-orange-600 font-black py-4 rounded-2xl active:scale-[0.98] transition-all uppercase tracking-widest text-xs disabled:opacity-40"
+          >
+            Clear All
+          </button>
+          <button onClick={onClose} className="flex-[2] bg-orange-600 text-white font-black py-4 rounded-2xl active:scale-[0.98] transition-all uppercase tracking-widest text-xs shadow-lg shadow-orange-100">
+            {counts ? `Show ${counts.total} ${counts.total === 1 ? 'Result' : 'Results'}` : 'Show Results'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FilterSheet;
@@ -0,0 +1,20 @@
+import React from 'react';
+import { highlightSegments } from '../lib/search';
+
+interface HighlightProps {
+  text: string;
+  terms: string[];
+}
+
+// Renders `text` with the word prefixes matching a search term marked
+const Highlight: React.FC<HighlightProps> = ({ text, terms }) => (
+  <>
+    {highlightSegments(text, terms).map((segment, i) =>
+      segment.match
+        ? <mark key={i} className="bg-orange-100 text-inherit rounded-sm">{segment.text}</mark>
+        : <React.Fragment key={i}>{segment.text}</React.Fragment>
+    )}
+  </>
+);
+
+export default Highlight;
@@ -1,66 +1,125 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { getListing, getProfile, isFavorite, toggleFavorite, getOrCreateConversation, deleteListing, setListingStatus, renewListing, bumpListing, listPriceHistory, defaultAvatarUrl, recordListingView } from '../lib/api';
+import { Listing, ListingPriceChange, ListingStatus, Profile } from '../types';
+import { formatListingPrice, getCategoryDefinition } from './categories';
+import { findCampusLocation } from '../lib/locations';
+import CampusMap from './CampusMap';
+import SimilarItems from './SimilarItems';
+import BuyerPicker from './BuyerPicker';
+import StatusBadge from './StatusBadge';
+import WasPrice from './WasPrice';
+import { canBump, expiresSoon, formatTimeLeft, isExpired, nextBumpAt } from '../lib/expiry';
 
 interface ItemDetailProps {
-  item: any;
+  listingId: string;
+  // Already-loaded listing from the feed, shown while the fresh copy loads
+  initialItem?: Listing | null;
   session: any;
   onBack: () => void;
   onFavoriteChange?: (isSaved: boolean) => void;
   onMessage: (conversationId?: string | null) => void;
+  onViewSeller?: (username: string) => void;
+  // Opens the feed filtered to this pickup spot
+  onViewLocation?: (item: Listing) => void;
+  onSelectItem?: (item: Listing) => void;
+  onEdit?: (item: Listing) => void;
 }
 
-const ItemDetail: React.FC<ItemDetailProps> = ({ item, session, onBack, onFavoriteChange, onMessage }) => {
+type ListingDetailProps = Omit<ItemDetailProps, 'listingId' | 'initialItem'> & { item: Listing; onItemChange: (item: Listing) => void };
+
+const ItemDetail: React.FC<ItemDetailProps> = ({ listingId, initialItem, ...props }) => {
+  const [item, setItem] = useState<Listing | null>(initialItem?.id === listingId ? initialItem : null);
+  const [notFound, setNotFound] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setNotFound(false);
+    getListing(listingId)
+      .then((listing) => {
+        if (cancelled) return;
+        if (listing) setItem(listing);
+        else setNotFound(true);
+      })
+      .catch((err) => {
+        console.error('Error loading listing:', err.message || err);
+        if (!cancelled) setNotFound(true);
+      });
+    return () => { cancelled = true; };
+  }, [listingId]);
+
+  if (notFound) {
+    return (
+      <div className="h-full bg-white flex flex-col items-center justify-center px-10 text-center space-y-4">
+        <p className="text-lg font-black text-gray-900">Listing not found</p>
+        <p className="text-xs text-gray-400 font-medium">It may have been sold or removed by the seller.</p>
+        <button onClick={props.onBack} className="bg-orange-600 px-6 py-3 rounded-2xl text-white text-xs font-black uppercase tracking-widest active:scale-95 transition-all">
+          Back to Feed
+        </button>
+      </div>
+    );
+  }
+
+  if (!item || item.id !== listingId) {
+    return (
+      <div className="h-full w-full flex items-center justify-center bg-white">
+        <div className="w-8 h-8 border-4 border-orange-500 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  return <ListingDetail key={item.id} item={item} onItemChange={setItem} {...props} />;
+};
+
+const ListingDetail: React.FC<ListingDetailProps> = ({ item, session, onBack, onFavoriteChange, onMessage, onViewSeller, onViewLocation, onSelectItem, onEdit, onItemChange }) => {
   const [currentPhotoIdx, setCurrentPhotoIdx] = useState(0);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
+  const [isChangingDates, setIsChangingDates] = useState(false);
+  const [pickingBuyerFor, setPickingBuyerFor] = useState<Exclude<ListingStatus, 'available'> | null>(null);
   const [isMessaging, setIsMessaging] = useState(false);
   const [isFavorited, setIsFavorited] = useState(false);
   const [isBursting, setIsBursting] = useState(false);
-  const [sellerProfile, setSellerProfile] = useState<{avatar_url: string, full_name: string} | null>(null);
+  const definition = getCategoryDefinition(item.category);
+  const campusLocation = findCampusLocation(item.location);
+  const [sellerProfile, setSellerProfile] = useState<Profile | null>(null);
+  const [priceHistory, setPriceHistory] = useState<ListingPriceChange[]>([]);
 
   const isOwner = session?.user?.id === item.seller_id;
+  const expired = isExpired(item);
 
-  const photos = useMemo(() => {
-    if (!item.image_url) return [];
-    try {
-      if (item.image_url.startsWith('[') && item.image_url.endsWith(']')) {
-        return JSON.parse(item.image_url) as string[];
-      }
-      return [item.image_url];
-    } catch (e) {
-      return [item.image_url];
-    }
-  }, [item.image_url]);
+  const photos = useMemo(() => item.photos.map(photo => photo.url), [item.photos]);
 
   useEffect(() => {
     const fetchSeller = async () => {
-      if (!isSupabaseConfigured) return;
       try {
-        const { data } = await supabase
-          .from('profiles')
-          .select('full_name, avatar_url')
-          .eq('id', item.seller_id)
-          .single();
+        const data = await getProfile(item.seller_id);
         if (data) setSellerProfile(data);
       } catch (e) {}
     };
     const checkFavorite = async () => {
       if (!session?.user?.id) return;
       try {
-        const { data } = await supabase
-          .from('favorites')
-          .select('id')
-          .eq('user_id', session.user.id)
-          .eq('listing_id', item.id)
-          .single();
-        setIsFavorited(!!data);
+        setIsFavorited(await isFavorite(session.user.id, item.id));
       } catch (e) {}
     };
     fetchSeller();
     checkFavorite();
   }, [item.id, item.seller_id, session?.user?.id]);
 
-  const toggleFavorite = async () => {
+  // Reloaded when an edit changes the price
+  useEffect(() => {
+    listPriceHistory(item.id)
+      .then(setPriceHistory)
+      .catch((err) => console.error('Error loading price history:', err.message || err));
+  }, [item.id, item.price]);
+
+  useEffect(() => {
+    if (!session?.user?.id || isOwner) return;
+    recordListingView(item.id, session.user.id).catch((err) => console.error('Error recording view:', err.message || err));
+  }, [item.id, session?.user?.id, isOwner]);
+
+  const handleToggleFavorite = async () => {
     if (!session?.user?.id) return;
     const nextState = !isFavorited;
     setIsFavorited(nextState);
@@ -68,17 +127,7 @@ const ItemDetail: React.FC<ItemDetailProps> = ({ item, session, onBack, onFavori
     setTimeout(() => setIsBursting(false), 400);
     onFavoriteChange?.(nextState);
     try {
-      if (!nextState) {
-        await supabase
-          .from('favorites')
-          .delete()
-          .eq('user_id', session.user.id)
-          .eq('listing_id', item.id);
-      } else {
-        await supabase
-          .from('favorites')
-          .insert({ user_id: session.user.id, listing_id: item.id });
-      }
+      await toggleFavorite(session.user.id, item.id, !nextState);
     } catch (err) {
       setIsFavorited(!nextState);
     }
@@ -91,41 +140,12 @@ const ItemDetail: React.FC<ItemDetailProps> = ({ item, session, onBack, onFavori
     if (!session?.user?.id || isMessaging) return;
     setIsMessaging(true);
     try {
-      // PROPER 1:1 DM SEARCH: Search for ANY conversation between these two users
-      // This ignores listing_id to ensure only ONE chat box exists per person pair
-      const { data: found, error: findError } = await supabase
-        .from('conversations')
-        .select('id, buyer_id, seller_id')
-        .or(`buyer_id.eq.${session.user.id},seller_id.eq.${session.user.id}`);
-
-      if (findError) throw findError;
-
-      // Filter locally for the specific other user to be 100% accurate
-      const existingDM = found?.find(conv => 
-        (conv.buyer_id === session.user.id && conv.seller_id === item.seller_id) ||
-        (conv.buyer_id === item.seller_id && conv.seller_id === session.user.id)
-      );
-
-      if (existingDM) {
-        onMessage(existingDM.id);
-        return;
-      }
-
-      // If no 1:1 chat exists yet, create the first one
-      const { data: created, error: createError } = await supabase
-        .from('conversations')
-        .insert({
-          listing_id: item.id, // Store initial context
-          buyer_id: session.user.id,
-          seller_id: item.seller_id
-        })
-        .select()
-        .single();
-
-      if (createError) throw createError;
-      if (created) {
-        onMessage(created.id);
-      }
+      const conversation = await getOrCreateConversation({
+        listingId: item.id, // Store initial context
+        buyerId: session.user.id,
+        sellerId: item.seller_id
+      });
+      onMessage(conversation.id);
     } catch (err: any) {
       console.error('Error starting chat:', err.message || err);
       alert('Could not start chat: ' + (err.message || 'Unknown error'));
@@ -138,11 +158,7 @@ const ItemDetail: React.FC<ItemDetailProps> = ({ item, session, onBack, onFavori
     if (!window.confirm('Are you sure you want to remove this listing?')) return;
     setIsDeleting(true);
     try {
-      const { error } = await supabase
-        .from('listings')
-        .delete()
-        .eq('id', item.id);
-      if (error) throw error;
+      await deleteListing(item.id);
       alert('Listing successfully removed.');
       onBack();
     } catch (err: any) {
@@ -153,7 +169,40 @@ const ItemDetail: React.FC<ItemDetailProps> = ({ item, session, onBack, onFavori
     }
   };
 
-  const sellerAvatar = sellerProfile?.avatar_url || `https://api.dicebear.com/7.x/avataaars/svg?seed=${item.seller_id}`;
+  const saveStatus = async (status: ListingStatus, buyerId: string | null = null) => {
+    setPickingBuyerFor(null);
+    setIsUpdatingStatus(true);
+    try {
+      onItemChange(await setListingStatus(item.id, status, buyerId));
+    } catch (err: any) {
+      console.error('Error updating status:', err.message || err);
+      alert('Could not update status: ' + (err.message || 'Unknown error'));
+    } finally {
+      setIsUpdatingStatus(false);
+    }
+  };
+
+  // Renew and bump both come back with the updated row
+  const changeDates = async (action: typeof renewListing, failure: string) => {
+    setIsChangingDates(true);
+    try {
+      onItemChange(await action(item.id));
+    } catch (err: any) {
+      console.error(`${failure}:`, err.message || err);
+      alert(`${failure}: ` + (err.message || 'Unknown error'));
+    } finally {
+      setIsChangingDates(false);
+    }
+  };
+
+  // Pending and sold offer to record the buyer first
+  const handleStatusChange = (status: ListingStatus) => {
+    if (status === item.status || isUpdatingStatus) return;
+    if (status === 'available') saveStatus(status);
+    else setPickingBuyerFor(status);
+  };
+
+  const sellerAvatar = sellerProfile?.avatar_url || defaultAvatarUrl(item.seller_id);
   const sellerName = sellerProfile?.full_name || 'Campus Seller';
 
   return (
@@ -166,7 +215,7 @@ const ItemDetail: React.FC<ItemDetailProps> = ({ item, session, onBack, onFavori
         </button>
         {!isOwner && (
           <button 
-            onClick={toggleFavorite}
+            onClick={handleToggleFavorite}
             className={`absolute top-12 right-6 z-30 bg-white/90 backdrop-blur p-2.5 rounded-2xl shadow-xl border border-gray-100 active:scale-95 transition-transform ${isBursting ? 'animate-heart-burst' : ''}`}
           >
             <svg 
@@ -197,44 +246,66 @@ const ItemDetail: React.FC<ItemDetailProps> = ({ item, session, onBack, onFavori
         <div className="flex justify-between items-start mb-4">
           <div className="flex-1 pr-4">
             <h1 className="text-2xl font-black text-gray-900 leading-tight mb-1">{item.title}</h1>
+            <StatusBadge status={item.status} expired={expired} className="inline-block mr-2 align-middle" />
             <span className="text-sm font-bold text-orange-600 uppercase tracking-tighter">{item.brand || item.category}</span>
+            {item.updated_at && (
+              <span className="ml-2 text-[10px] font-bold text-gray-400 uppercase tracking-widest" title={new Date(item.updated_at).toLocaleString()}>
+                · Edited
+              </span>
+            )}
           </div>
           <div className="border-2 border-orange-100 rounded-[1.25rem] px-4 py-2 bg-white shadow-sm">
-            <span className="text-xl font-black text-orange-600">${Number(item.price).toFixed(2)}</span>
+            <span className="text-xl font-black text-orange-600">{formatListingPrice(item)}</span>
+            <WasPrice listing={item} className="block text-[10px] text-right" />
           </div>
         </div>
-        {item.category === 'Clothing' && (
-          <div className="flex flex-wrap gap-2 mb-6">
-            <div className="bg-gray-900 px-4 py-2 rounded-xl flex items-center space-x-2">
-              <span className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Size</span>
-              <span className="text-xs font-bold text-white uppercase">{item.size || 'N/A'}</span>
+        {isOwner && (
+          <div className="grid grid-cols-3 gap-2 mb-6">
+            {[
+              ['Views', item.view_count ?? 0],
+              ['Saves', item.favorite_count ?? 0],
+              ['Chats', item.conversation_count ?? 0]
+            ].map(([label, count]) => (
+              <div key={label} className="bg-orange-50/60 border border-orange-100 rounded-2xl py-3 text-center">
+                <p className="text-lg font-black text-gray-900 leading-none">{count}</p>
+                <p className="text-[9px] uppercase font-black text-orange-400 tracking-widest mt-1">{label}</p>
+              </div>
+            ))}
+          </div>
+        )}
+        {definition?.renderDetails?.(item)}
+        {item.condition && (
+          <div className="grid grid-cols-2 gap-3 mb-6">
+            <div className="bg-gray-50 p-4 rounded-[1.5rem] border border-gray-100">
+              <p className="text-[10px] uppercase font-black text-gray-400 tracking-widest mb-1">Condition</p>
+              <p className="text-sm font-bold text-gray-800">{item.condition}</p>
             </div>
-            <div className="bg-orange-600 px-4 py-2 rounded-xl flex items-center space-x-2">
-              <span className="text-[10px] font-black text-orange-200 uppercase tracking-widest">Type</span>
-              <span className="text-xs font-bold text-white uppercase">{item.gender || 'Unisex'}</span>
+            <div className="bg-gray-50 p-4 rounded-[1.5rem] border border-gray-100">
+              <p className="text-[10px] uppercase font-black text-gray-400 tracking-widest mb-1">Category</p>
+              <p className="text-sm font-bold text-gray-800">{item.category}</p>
             </div>
           </div>
         )}
-        <div className="grid grid-cols-2 gap-3 mb-6">
-          <div className="bg-gray-50 p-4 rounded-[1.5rem] border border-gray-100">
-            <p className="text-[10px] uppercase font-black text-gray-400 tracking-widest mb-1">Condition</p>
-            <p className="text-sm font-bold text-gray-800">{item.condition}</p>
-          </div>
-          <div className="bg-gray-50 p-4 rounded-[1.5rem] border border-gray-100">
-            <p className="text-[10px] uppercase font-black text-gray-400 tracking-widest mb-1">Category</p>
-            <p className="text-sm font-bold text-gray-800">{item.category}</p>
-          </div>
-        </div>
-        <div className="bg-gray-50 border border-gray-100 rounded-[1.5rem] p-4 mb-6 flex items-center space-x-3">
-          <div className="bg-white p-2.5 rounded-2xl shadow-sm border border-gray-100">
-            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-orange-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
-            </svg>
-          </div>
-          <div>
-            <p className="text-[10px] uppercase font-black text-gray-400 tracking-widest mb-0.5">Pickup Location</p>
-            <p className="text-sm font-bold text-gray-900">{item.location}</p>
+        <div className="bg-gray-50 border border-gray-100 rounded-[1.5rem] p-4 mb-6 space-y-4">
+          <div className="flex items-center space-x-3">
+            <div className="bg-white p-2.5 rounded-2xl shadow-sm border border-gray-100">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-orange-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+              </svg>
+            </div>
+            <div>
+              <p className="text-[10px] uppercase font-black text-gray-400 tracking-widest mb-0.5">{definition?.locationLabel ?? 'Pickup Location'}</p>
+              <p className="text-sm font-bold text-gray-900">{item.location}</p>
+            </div>
           </div>
+          {campusLocation && (
+            <div
+              onClick={() => onViewLocation?.(item)}
+              className={`rounded-2xl overflow-hidden border border-gray-100 ${onViewLocation ? 'cursor-pointer active:scale-[0.98] transition-all' : ''}`}
+            >
+              <CampusMap highlight={campusLocation} />
+            </div>
+          )}
         </div>
         {item.description && (
           <div className="mb-8 p-5 bg-gray-50/30 rounded-[2rem] border border-gray-100">
@@ -242,8 +313,26 @@ const ItemDetail: React.FC<ItemDetailProps> = ({ item, session, onBack, onFavori
             <p className="text-sm text-gray-600 leading-relaxed whitespace-pre-wrap font-medium">{item.description}</p>
           </div>
         )}
+        {priceHistory.length > 0 && (
+          <div className="mb-8 p-5 bg-gray-50/30 rounded-[2rem] border border-gray-100">
+            <p className="text-[10px] uppercase font-black text-gray-400 tracking-widest mb-2">Price History</p>
+            <div className="space-y-1.5">
+              {[...priceHistory].reverse().map(change => (
+                <div key={change.id} className="flex justify-between text-xs font-bold">
+                  <span className="text-gray-400">{new Date(change.created_at).toLocaleDateString()}</span>
+                  <span className="text-gray-700">
+                    {formatListingPrice({ ...item, price: change.old_price })} → <span className={change.new_price < change.old_price ? 'text-green-600' : 'text-gray-900'}>{formatListingPrice({ ...item, price: change.new_price })}</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
         <div className="bg-white border border-gray-100 rounded-[2rem] p-5 space-y-5 shadow-sm">
-          <div className="flex items-center space-x-4">
+          <div
+            onClick={() => sellerProfile?.username && onViewSeller?.(sellerProfile.username)}
+            className={`flex items-center space-x-4 ${sellerProfile?.username && onViewSeller ? 'cursor-pointer' : ''}`}
+          >
             <img src={sellerAvatar} className="w-14 h-14 rounded-2xl bg-orange-100 border border-orange-200 object-cover shadow-sm" alt="Seller" />
             <div>
               <h4 className="font-bold text-gray-900">{sellerName}</h4>
@@ -251,16 +340,78 @@ const ItemDetail: React.FC<ItemDetailProps> = ({ item, session, onBack, onFavori
             </div>
           </div>
           {isOwner ? (
-            <button onClick={handleDelete} disabled={isDeleting} className="w-full bg-red-50 py-4 rounded-2xl flex items-center justify-center space-x-2 text-red-600 font-bold active:scale-95 transition-all">
-              <span className="text-sm uppercase tracking-widest">{isDeleting ? 'Removing...' : 'Delete Listing'}</span>
-            </button>
+            <div className="space-y-3">
+              <div className="flex bg-[#F6F7F9] rounded-2xl p-1">
+                {(['available', 'pending', 'sold'] as ListingStatus[]).map(status => (
+                  <button
+                    key={status}
+                    onClick={() => handleStatusChange(status)}
+                    disabled={isUpdatingStatus}
+                    className={`flex-1 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${item.status === status ? 'bg-white text-gray-900 shadow-sm' : 'text-[#707E8C]'}`}
+                  >
+                    {status}
+                  </button>
+                ))}
+              </div>
+              {item.status !== 'sold' && item.expires_at && (
+                <div className={`rounded-2xl p-3 flex items-center justify-between space-x-3 ${expired || expiresSoon(item) ? 'bg-red-50' : 'bg-[#F6F7F9]'}`}>
+                  <div className="min-w-0">
+                    <p className={`text-[10px] font-black uppercase tracking-widest ${expired || expiresSoon(item) ? 'text-red-500' : 'text-[#707E8C]'}`}>
+                      {expired ? 'Expired' : `Expires in ${formatTimeLeft(new Date(item.expires_at).getTime())}`}
+                    </p>
+                    <p className="text-[10px] text-gray-400 font-medium">
+                      {expired ? 'Hidden from the Marketplace until you renew it' : item.bumped_at ? 'Bumped to the top of the feed' : 'Listed in the Marketplace'}
+                    </p>
+                  </div>
+                  <div className="flex space-x-2 shrink-0">
+                    <button
+                      onClick={() => changeDates(renewListing, 'Could not renew listing')}
+                      disabled={isChangingDates}
+                      className="px-3 py-2 rounded-xl bg-white text-[9px] font-black text-gray-900 uppercase tracking-widest shadow-sm active:scale-95 transition-all disabled:opacity-50"
+                    >
+                      Renew
+                    </button>
+                    {!expired && (
+                      <button
+                        onClick={() => changeDates(bumpListing, 'Could not bump listing')}
+                        disabled={isChangingDates || !canBump(item)}
+                        className="px-3 py-2 rounded-xl bg-orange-600 text-[9px] font-black text-white uppercase tracking-widest shadow-sm active:scale-95 transition-all disabled:opacity-50"
+                      >
+                        {canBump(item) ? 'Bump' : `Bump in ${formatTimeLeft(nextBumpAt(item))}`}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
+              {onEdit && (
+                <button onClick={() => onEdit(item)} className="w-full bg-gray-900 py-4 rounded-2xl flex items-center justify-center space-x-2 text-white font-black active:scale-95 transition-all">
+                  <span className="text-sm uppercase tracking-widest">Edit Listing</span>
+                </button>
+              )}
+              <button onClick={handleDelete} disabled={isDeleting} className="w-full bg-red-50 py-4 rounded-2xl flex items-center justify-center space-x-2 text-red-600 font-bold active:scale-95 transition-all">
+                <span className="text-sm uppercase tracking-widest">{isDeleting ? 'Removing...' : 'Delete Listing'}</span>
+              </button>
+            </div>
+          ) : item.status === 'sold' || expired ? (
+            <div className="w-full bg-gray-100 py-4 rounded-2xl flex items-center justify-center text-gray-400 font-black uppercase tracking-widest">
+              <span className="text-sm">{item.status === 'sold' ? 'Sold' : 'No Longer Listed'}</span>
+            </div>
           ) : (
             <button onClick={handleMessageSeller} disabled={isMessaging} className="w-full bg-orange-600 shadow-xl shadow-orange-100 py-4 rounded-2xl flex items-center justify-center space-x-2 text-white font-black uppercase tracking-widest active:scale-95 transition-all hover:bg-orange-700">
-              <span className="text-sm">{isMessaging ? 'Connecting...' : 'Message Seller'}</span>
+              <span className="text-sm">{isMessaging ? 'Connecting...' : definition?.contactLabel ?? 'Message Seller'}</span>
             </button>
           )}
         </div>
+        {onSelectItem && <SimilarItems listing={item} viewerId={session?.user?.id} onSelectItem={onSelectItem} />}
       </div>
+      {pickingBuyerFor && (
+        <BuyerPicker
+          listing={item}
+          status={pickingBuyerFor}
+          onPick={(buyerId) => saveStatus(pickingBuyerFor, buyerId)}
+          onClose={() => setPickingBuyerFor(null)}
+        />
+      )}
     </div>
   );
 };
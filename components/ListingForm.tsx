@@ -0,0 +1,366 @@
+
+import React, { useState, useRef, useEffect } from 'react';
+import { publishListing, saveListingEdit } from '../lib/api';
+import { config } from '../lib/config';
+import { discardDraft, LocalDraft, newDraftId, saveDraft } from '../lib/drafts';
+import { Listing, ListingPhoto } from '../types';
+import { CategoryDefinition, FieldDefinition, FormValues, initialValues, toListingUpdate, toNewListing, validateValues, valuesFromListing } from './categories';
+
+interface ListingFormProps {
+  definition: CategoryDefinition;
+  // Edits this listing instead of posting a new one
+  listing?: Listing;
+  // New listings only: picks up this draft instead of an empty form
+  draft?: LocalDraft;
+  // Called once the form has been autosaved as a draft
+  onDraftSaved?: (draftId: string) => void;
+  onBack: () => void;
+  onSuccess?: () => void;
+  session: any;
+}
+
+// A photo already on the listing, or a file picked in this session
+// Draft photos have no preview of their own; FilePreview makes one
+type FormPhoto = { key: string; preview?: string } & ({ saved: ListingPhoto } | { file: File });
+
+const labelClass = 'text-xs font-black text-gray-400 uppercase tracking-widest';
+
+// Typing pauses this long before the draft is saved
+const DRAFT_SAVE_DELAY = 800;
+
+// Object URL for a photo file, revoked when the thumbnail goes away
+const FilePreview: React.FC<{ file: File; className: string }> = ({ file, className }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  return url ? <img src={url} className={className} alt="Preview" /> : <div className={`${className} bg-gray-50`} />;
+};
+
+const ListingForm: React.FC<ListingFormProps> = ({ definition, listing, draft, onDraftSaved, onBack, onSuccess, session }) => {
+  const [values, setValues] = useState<FormValues>(() =>
+    listing ? valuesFromListing(definition, listing) : { ...initialValues(definition), ...draft?.values }
+  );
+  const [photos, setPhotos] = useState<FormPhoto[]>(() => listing
+    ? listing.photos.map(photo => ({ key: photo.id, preview: photo.url, saved: photo }))
+    : (draft?.photos ?? []).map((file, i) => ({ key: `draft-${i}`, file }))
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [draftId] = useState(() => draft?.id ?? newDraftId());
+  const [hasDraft, setHasDraft] = useState(!!draft);
+  // The form as last saved (or loaded), and the change waiting to be saved
+  const savedForm = useRef({ values, photos });
+  const pendingDraft = useRef<LocalDraft | null>(null);
+  const mounted = useRef(true);
+
+  const flushDraft = () => {
+    const next = pendingDraft.current;
+    if (!next) return;
+    pendingDraft.current = null;
+    saveDraft(next)
+      .then(() => {
+        if (!mounted.current) return;
+        setHasDraft(true);
+        onDraftSaved?.(next.id);
+      })
+      .catch(err => console.error('Error saving draft:', err.message || err));
+  };
+
+  // Autosaves new listings. An untouched empty form isn't worth a draft.
+  useEffect(() => {
+    if (listing) return;
+    if (values === savedForm.current.values && photos === savedForm.current.photos) return;
+    const blank = photos.length === 0 && Object.entries(initialValues(definition)).every(([name, value]) => values[name] === value);
+    if (blank && !hasDraft) return;
+    savedForm.current = { values, photos };
+    pendingDraft.current = {
+      id: draftId,
+      user_id: session.user.id,
+      category: definition.category,
+      values,
+      photo_count: photos.length,
+      photos: photos.flatMap(photo => 'file' in photo ? [photo.file] : []),
+      updated_at: new Date().toISOString()
+    };
+    const timer = setTimeout(flushDraft, DRAFT_SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [values, photos]);
+
+  // Leaving the form (e.g. switching tabs) saves what was typed since
+  useEffect(() => {
+    mounted.current = true;
+    return () => {
+      mounted.current = false;
+      flushDraft();
+    };
+  }, []);
+
+  const { theme, form } = definition;
+  const MAX_PHOTOS = config.maxPhotos;
+  const inputClass = `w-full p-4 bg-gray-50 border border-gray-100 rounded-2xl focus:ring-2 ${theme.ring} outline-none transition-all text-sm font-bold`;
+
+  const setValue = (name: string, value: string) => setValues(prev => ({ ...prev, [name]: value }));
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    // Fix: Cast files to File[] to ensure proper type inference for standard Blob/File properties
+    const files = Array.from(e.target.files || []) as File[];
+    if (photos.length + files.length > MAX_PHOTOS) {
+      alert(`You can only upload up to ${MAX_PHOTOS} photos.`);
+      return;
+    }
+    
+    files.forEach(file => {
+      const reader = new FileReader();
+      reader.onloadend = () => {
+        const key = `new-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+        setPhotos(prev => [...prev, { key, file, preview: reader.result as string }].slice(0, MAX_PHOTOS));
+      };
+      reader.readAsDataURL(file);
+    });
+    
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const removePhoto = (index: number) => {
+    setPhotos(prev => prev.filter((_, i) => i !== index));
+  };
+
+  // Swaps a photo with its neighbour; the first one is the cover
+  const movePhoto = (index: number, offset: -1 | 1) => {
+    setPhotos(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleSubmit = async () => {
+    const error = validateValues(definition, values, photos.length);
+    if (error) return alert(error);
+    setIsSubmitting(true);
+
+    try {
+      // Uploads and the database write succeed or fail together
+      if (listing) {
+        await saveListingEdit(listing, toListingUpdate(definition, values), photos.map(photo => 'saved' in photo ? photo.saved : photo.file));
+        alert('Listing updated!');
+      } else {
+        await publishListing(toNewListing(definition, values, session.user.id), photos.flatMap(photo => 'file' in photo ? [photo.file] : []));
+        pendingDraft.current = null;
+        discardDraft(draftId).catch(err => console.error('Error removing draft:', err.message || err));
+        alert(form.successMessage);
+      }
+      onSuccess?.();
+    } catch (err: any) {
+      console.error('Submit Error:', err);
+      alert((listing ? 'Error saving: ' : 'Error posting: ') + (err.message || 'Check your internet and try again.'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (!window.confirm('Discard this draft? Its details and photos will be deleted.')) return;
+    pendingDraft.current = null;
+    try {
+      await discardDraft(draftId);
+      onBack();
+    } catch (err: any) {
+      alert('Error discarding draft: ' + (err.message || 'Unknown error'));
+    }
+  };
+
+  const renderField = (field: FieldDefinition) => {
+    const label = `${field.label}${field.required ? ' *' : ''}`;
+    const value = values[field.name] ?? '';
+
+    switch (field.kind) {
+      case 'text':
+      case 'number':
+      case 'date':
+        return (
+          <div key={field.name} className="space-y-1">
+            <label className={labelClass}>{label}</label>
+            <input
+              type={field.kind}
+              value={value}
+              onChange={(e) => setValue(field.name, e.target.value)}
+              placeholder={field.placeholder}
+              {...(field.kind === 'number' ? { min: field.min, step: field.step } : {})}
+              className={inputClass}
+            />
+          </div>
+        );
+      case 'select':
+        return (
+          <div key={field.name} className="space-y-1">
+            <label className={labelClass}>{label}</label>
+            <select value={value} onChange={(e) => setValue(field.name, e.target.value)} className={`${inputClass} appearance-none`}>
+              {field.options.map(option => <option key={option} value={option}>{option}</option>)}
+            </select>
+          </div>
+        );
+      case 'textarea':
+        return (
+          <div key={field.name} className="space-y-2">
+            <label className={labelClass}>{label}</label>
+            <textarea rows={field.rows ?? 4} value={value} onChange={(e) => setValue(field.name, e.target.value)} placeholder={field.placeholder} className={`${inputClass} resize-none font-medium leading-relaxed`} />
+          </div>
+        );
+      case 'chips':
+        return (
+          <div key={field.name} className="space-y-2">
+            <label className={labelClass}>{label}</label>
+            <div className={field.fill ? 'flex gap-2' : 'flex flex-wrap gap-2'}>
+              {field.options.map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setValue(field.name, option)}
+                  className={`${field.fill ? 'flex-1' : 'px-5'} py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all ${value === option ? `${theme.chip} text-white shadow-lg scale-105` : 'bg-gray-50 text-gray-400 border border-gray-100'}`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          </div>
+        );
+      case 'toggle': {
+        const isOn = value === 'true';
+        return (
+          <button
+            key={field.name}
+            onClick={() => setValue(field.name, isOn ? 'false' : 'true')}
+            className="w-full flex items-center justify-between p-4 bg-gray-50 border border-gray-100 rounded-2xl text-left"
+          >
+            <div>
+              <p className={labelClass}>{field.label}</p>
+              {field.hint && <p className="text-[11px] text-gray-400 font-medium mt-0.5">{field.hint}</p>}
+            </div>
+            <span className={`w-12 h-7 rounded-full p-1 flex-shrink-0 transition-all ${isOn ? theme.chip : 'bg-gray-200'}`}>
+              <span className={`block w-5 h-5 bg-white rounded-full shadow transition-transform ${isOn ? 'translate-x-5' : ''}`} />
+            </span>
+          </button>
+        );
+      }
+    }
+  };
+
+  // Adjacent half-width fields share a two-column row
+  const rows: FieldDefinition[][] = [];
+  definition.fields.forEach((field) => {
+    const last = rows[rows.length - 1];
+    if (field.half && last?.length === 1 && last[0].half) last.push(field);
+    else rows.push([field]);
+  });
+
+  return (
+    <div className="flex flex-col h-full bg-white">
+      <div className={`${theme.header} p-6 flex items-start space-x-4 text-white pt-14`}>
+        <button onClick={onBack} className="bg-white/20 p-2 rounded-full active:scale-90 transition-transform">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <div>
+          <h1 className="text-xl font-black uppercase tracking-tight">{listing ? 'Edit Listing' : form.title}</h1>
+          <p className="text-white/80 text-[10px] font-bold uppercase tracking-widest">{listing ? listing.title : form.subtitle}</p>
+        </div>
+      </div>
+      <div className="flex-1 overflow-y-auto p-6 space-y-6 pb-32 no-scrollbar">
+        <div className="space-y-3">
+          <label className={`${labelClass} flex justify-between`}>
+            <span>Photos{definition.minPhotos > 0 ? ' *' : ''}</span>
+            <span>{photos.length}/{MAX_PHOTOS}</span>
+          </label>
+          <div className="flex space-x-3 overflow-x-auto no-scrollbar pb-2">
+            {photos.map((photo, idx) => (
+              <div key={photo.key} className="relative flex-shrink-0">
+                {photo.preview || !('file' in photo)
+                  ? <img src={photo.preview} className="w-28 h-28 rounded-3xl object-cover border border-gray-100 shadow-sm" alt="Preview" />
+                  : <FilePreview file={photo.file} className="w-28 h-28 rounded-3xl object-cover border border-gray-100 shadow-sm" />}
+                {idx === 0 && photos.length > 1 && (
+                  <span className="absolute top-2 left-2 bg-white/95 px-2 py-0.5 rounded-lg text-[8px] font-black text-gray-700 uppercase tracking-widest shadow-sm">Cover</span>
+                )}
+                {photos.length > 1 && (
+                  <div className="absolute bottom-2 left-2 right-2 flex justify-between">
+                    <button
+                      onClick={() => movePhoto(idx, -1)}
+                      disabled={idx === 0}
+                      aria-label="Move photo left"
+                      className="bg-white/90 rounded-full p-1 shadow disabled:opacity-0 active:scale-90 transition-transform"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 text-gray-700" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M15 19l-7-7 7-7" /></svg>
+                    </button>
+                    <button
+                      onClick={() => movePhoto(idx, 1)}
+                      disabled={idx === photos.length - 1}
+                      aria-label="Move photo right"
+                      className="bg-white/90 rounded-full p-1 shadow disabled:opacity-0 active:scale-90 transition-transform"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 text-gray-700" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M9 5l7 7-7 7" /></svg>
+                    </button>
+                  </div>
+                )}
+                <button 
+                  onClick={() => removePhoto(idx)}
+                  className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full p-1 shadow-lg border-2 border-white active:scale-90 transition-transform"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                    <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+                  </svg>
+                </button>
+              </div>
+            ))}
+            {photos.length < MAX_PHOTOS && (
+              <button 
+                onClick={() => fileInputRef.current?.click()}
+                className={`w-28 h-28 rounded-3xl border-2 border-dashed border-gray-200 bg-gray-50 flex flex-col items-center justify-center text-gray-400 hover:bg-white ${theme.addPhotoHover} transition-all flex-shrink-0 group`}
+              >
+                <div className="bg-white p-2 rounded-xl shadow-sm mb-1 group-hover:scale-110 transition-transform">
+                  <svg xmlns="http://www.w3.org/2000/svg" className={`h-6 w-6 ${theme.addPhotoIcon}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M12 4v16m8-8H4" />
+                  </svg>
+                </div>
+                <span className="text-[9px] font-black uppercase tracking-tighter">Add</span>
+              </button>
+            )}
+          </div>
+          <input type="file" ref={fileInputRef} onChange={handleFileChange} accept="image/*" multiple className="hidden" />
+        </div>
+        <div className="space-y-5">
+          {rows.map((row) => row.length === 2 ? (
+            <div key={row[0].name} className="grid grid-cols-2 gap-4">
+              {row.map(renderField)}
+            </div>
+          ) : renderField(row[0]))}
+        </div>
+        {listing && (listing.favorite_count ?? 0) > 0 && (
+          <p className="text-[11px] text-gray-400 font-medium text-center">
+            {listing.favorite_count === 1 ? '1 person has' : `${listing.favorite_count} people have`} saved this. Lowering the price lets them know.
+          </p>
+        )}
+        <button onClick={handleSubmit} disabled={isSubmitting} className={`w-full text-white font-black py-5 rounded-[2rem] shadow-xl active:scale-[0.98] transition-all uppercase tracking-widest text-sm mt-4 ${theme.button} disabled:opacity-50`}>
+          {listing ? (isSubmitting ? 'Saving...' : 'Save Changes') : (isSubmitting ? form.submittingLabel : form.submitLabel)}
+        </button>
+        {!listing && hasDraft && (
+          <div className="flex items-center justify-between px-2">
+            <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Draft saved</span>
+            <button onClick={handleDiscard} disabled={isSubmitting} className="text-[10px] font-black text-red-500 uppercase tracking-widest active:scale-95 transition-all disabled:opacity-50">
+              Discard Draft
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ListingForm;
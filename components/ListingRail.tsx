@@ -0,0 +1,44 @@
+import React from 'react';
+import { Listing } from '../types';
+import { thumbnailUrl } from '../lib/images';
+import { formatListingPrice } from './categories';
+import WasPrice from './WasPrice';
+
+interface ListingRailProps {
+  title: string;
+  items: Listing[];
+  loading?: boolean;
+  onSelectItem: (item: Listing) => void;
+  className?: string;
+}
+
+// A titled, horizontally scrolling row of listing cards
+const ListingRail: React.FC<ListingRailProps> = ({ title, items, loading = false, onSelectItem, className = '' }) => (
+  <div className={`space-y-3 ${className}`}>
+    <p className="text-[10px] uppercase font-black text-gray-400 tracking-widest px-1">{title}</p>
+    <div className="flex space-x-3 overflow-x-auto no-scrollbar -mx-6 px-6 pb-2">
+      {loading ? (
+        [0, 1, 2].map(i => (
+          <div key={i} className="w-32 shrink-0 space-y-2">
+            <div className="w-32 h-32 rounded-2xl bg-gray-100 animate-pulse"></div>
+            <div className="h-3 w-20 rounded bg-gray-100 animate-pulse"></div>
+          </div>
+        ))
+      ) : items.map(item => (
+        <div
+          key={item.id}
+          onClick={() => onSelectItem(item)}
+          className="w-32 shrink-0 cursor-pointer active:scale-95 transition-all"
+        >
+          <img src={thumbnailUrl(item)} alt={item.title} className="w-32 h-32 rounded-2xl object-cover bg-gray-50 border border-gray-100" />
+          <p className="mt-2 text-xs font-bold text-gray-900 truncate">{item.title}</p>
+          <p className="text-[10px] font-black text-[#F15A24]">
+            {formatListingPrice(item)} <WasPrice listing={item} className="text-[8px]" />
+          </p>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default ListingRail;
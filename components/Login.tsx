@@ -1,6 +1,7 @@
 
 import React, { useState } from 'react';
-import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { signIn, signUp } from '../lib/api';
+import { config } from '../lib/config';
 
 const Login: React.FC = () => {
   const [email, setEmail] = useState('');
@@ -13,31 +14,17 @@ const Login: React.FC = () => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!isSupabaseConfigured) {
-      setError("Marketplace configuration missing.");
-      return;
-    }
-
     setIsLoading(true);
     setError(null);
 
-    if (isSignUp) {
-      const { error: signUpError } = await supabase.auth.signUp({
-        email,
-        password,
-        options: {
-          data: {
-            full_name: fullName,
-          }
-        }
-      });
-      if (signUpError) setError(signUpError.message);
-    } else {
-      const { error: authError } = await supabase.auth.signInWithPassword({
-        email,
-        password,
-      });
-      if (authError) setError(authError.message);
+    try {
+      if (isSignUp) {
+        await signUp(email, password, fullName);
+      } else {
+        await signIn(email, password);
+      }
+    } catch (err: any) {
+      setError(err.message);
     }
     
     setIsLoading(false);
@@ -53,7 +40,7 @@ const Login: React.FC = () => {
           <h2 className="text-[#FF8C42] text-xl font-bold tracking-tight">
             {isSignUp ? 'Create your account' : 'Welcome back'}
           </h2>
-          <p className="text-[#FFB380] text-sm font-medium">Built for the UTD Community</p>
+          <p className="text-[#FFB380] text-sm font-medium">Built for the {config.campusName} Community</p>
         </div>
       </div>
 
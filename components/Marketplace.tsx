@@ -1,81 +1,220 @@
 
-import React, { useState, useEffect } from 'react';
-import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import React, { useState, useEffect, useRef } from 'react';
+import { listListingsPage, listFavoriteIds, toggleFavorite, searchListings, getListingFacetCounts, listSavedSearches, createSavedSearch, listTrendingListings, ListingQuery } from '../lib/api';
+import { Category, Listing, SavedSearch } from '../types';
+import { CATEGORIES, formatListingPrice, getCategoryDefinition } from './categories';
+import { thumbnailUrl } from '../lib/images';
+import { searchTerms } from '../lib/search';
+import Highlight from './Highlight';
+import { LeaseWindow } from '../lib/housing';
+import { setSearchParams, useSearchParams } from '../lib/router';
+import { activeFilterCount, countFacets, Facet, FacetCounts, FeedFilters, matchesFeedFilters, parseFeedFilters, restrictFilters, sortListings, toFilterArgs, writeFeedFilters } from '../lib/feedFilters';
+import { defaultSearchName, isSameSearch } from '../lib/savedSearches';
+import { useLoadMoreSentinel, usePagedList } from '../lib/infiniteScroll';
+import { useLiveListings } from '../lib/liveListings';
+import FilterSheet from './FilterSheet';
+import CampusMap from './CampusMap';
+import ListingRail from './ListingRail';
+import StatusBadge from './StatusBadge';
+import WasPrice from './WasPrice';
+import { clusterLocations, MapCluster, PICKUP_LOCATIONS } from '../lib/locations';
+
+const FIELD_FACETS: Facet[] = ['condition', 'size', 'gender'];
+
+// Filters a category offers follow its form fields; search spans categories,
+// so only the shared ones apply there
+const facetsFor = (category: Category | null): Facet[] => {
+  const fields = category ? getCategoryDefinition(category)?.fields.map(f => f.name) ?? [] : ['condition'];
+  return ['price', ...FIELD_FACETS.filter(facet => fields.includes(facet)), 'location', 'postedWithin'];
+};
 
 interface MarketplaceProps {
   session: any;
-  onSelectItem?: (item: any) => void;
+  onSelectItem?: (item: Listing) => void;
   onFavoriteChange?: (isSaved: boolean) => void;
 }
 
 const Marketplace: React.FC<MarketplaceProps> = ({ session, onSelectItem, onFavoriteChange }) => {
-  const [activeCategory, setActiveCategory] = useState('Clothing');
-  const [searchQuery, setSearchQuery] = useState('');
-  const [listings, setListings] = useState<any[]>([]);
+  // Category, search, and filters live in the query string so they survive reloads
+  const params = useSearchParams();
+  const activeCategory = CATEGORIES.find(def => def.category.toLowerCase() === params.get('category'))?.category ?? CATEGORIES[0].category;
+  const searchQuery = params.get('q') ?? '';
+  const leaseWindow: LeaseWindow = { moveIn: params.get('move_in') ?? '', moveOut: params.get('move_out') ?? '' };
+  const [isFilterSheetOpen, setIsFilterSheetOpen] = useState(false);
   const [favorites, setFavorites] = useState<Set<string>>(new Set());
-  const [loading, setLoading] = useState(true);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  // Counts for the filter sheet and map while either is open
+  const [facetCounts, setFacetCounts] = useState<FacetCounts | null>(null);
+  const [trending, setTrending] = useState<Listing[]>([]);
+  const scrollRef = useRef<HTMLDivElement>(null);
   const [burstingId, setBurstingId] = useState<string | null>(null);
+  // null until the current query has results
+  const [searchResults, setSearchResults] = useState<Listing[] | null>(null);
+
+  const trimmedQuery = searchQuery.trim();
+  const isSearching = trimmedQuery !== '';
+  // Housing addresses are off campus, so that tab has no map
+  const canShowMap = isSearching || activeCategory !== 'Housing';
+  const isMapView = canShowMap && params.get('view') === 'map';
+  const facets = facetsFor(isSearching ? null : activeCategory);
+  const filters = restrictFilters(parseFeedFilters(params), facets);
+
+  // Browsing pages through the active category with the filters applied in
+  // the query; search results are a single ranked batch filtered here
+  const feedQuery: ListingQuery = {
+    category: activeCategory,
+    sold: false,
+    expired: false,
+    filters,
+    leaseWindow: activeCategory === 'Housing' ? leaseWindow : undefined
+  };
+  const feedKey = JSON.stringify(feedQuery);
+  const feed = usePagedList(cursor => listListingsPage(feedQuery, cursor), [feedKey], !isSearching);
+  const live = useLiveListings('marketplace-realtime', feed, feedQuery);
+  const sentinelRef = useLoadMoreSentinel(
+    feed.loadMore,
+    !isSearching && feed.hasMore && !feed.loading && !feed.loadingMore && !feed.loadMoreFailed,
+    scrollRef
+  );
+
+  const updateParams = (changes: Record<string, string | null>) => {
+    const next = new URLSearchParams(params);
+    Object.entries(changes).forEach(([key, value]) => value ? next.set(key, value) : next.delete(key));
+    setSearchParams(next);
+  };
 
-  const categories = [
-    { name: 'Clothing', icon: '👕' },
-    { name: 'Furniture', icon: '🪑' },
-    { name: 'Electronics', icon: '💻' }
-  ];
+  const setSearchQuery = (query: string) => updateParams({ q: query });
+  const setFilters = (next: FeedFilters) => setSearchParams(writeFeedFilters(params, next));
+  const setMapView = (show: boolean) => updateParams({ view: show ? 'map' : null });
+
+  // Tapping a building (or a cluster of them) narrows the feed to it and shows the listings
+  const handleSelectCluster = (cluster: MapCluster) => {
+    const next = writeFeedFilters(params, { ...filters, locations: cluster.locations.map(location => location.name) });
+    next.delete('view');
+    setSearchParams(next);
+  };
+
+  const setLeaseWindow = (next: LeaseWindow) => updateParams({ move_in: next.moveIn, move_out: next.moveOut });
+
+  // Switching tabs drops filters the new category doesn't offer
+  const setActiveCategory = (category: Category) => {
+    const next = writeFeedFilters(params, restrictFilters(parseFeedFilters(params), facetsFor(category)));
+    next.set('category', category.toLowerCase());
+    if (category !== 'Housing') {
+      next.delete('move_in');
+      next.delete('move_out');
+    }
+    setSearchParams(next);
+  };
 
   useEffect(() => {
-    fetchListings();
     if (session?.user?.id) {
       fetchFavorites();
-    }
-
-    if (isSupabaseConfigured) {
-      const channel = supabase
-        .channel('marketplace-realtime')
-        .on('postgres_changes', { event: '*', schema: 'public', table: 'listings' }, () => fetchListings())
-        .subscribe();
-
-      return () => {
-        supabase.removeChannel(channel);
-      };
+      fetchSavedSearches();
     }
   }, [session?.user?.id]);
 
-  const fetchListings = async () => {
-    if (!isSupabaseConfigured) {
-      setLoading(false);
+  useEffect(() => {
+    let cancelled = false;
+    setTrending([]);
+    listTrendingListings(activeCategory)
+      .then((rows) => { if (!cancelled) setTrending(rows); })
+      .catch((err) => console.error('Error fetching trending:', err.message || err));
+    return () => { cancelled = true; };
+  }, [activeCategory]);
+
+  useEffect(() => {
+    if ((!isFilterSheetOpen && !isMapView) || isSearching) {
+      setFacetCounts(null);
       return;
     }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const counts = await getListingFacetCounts(feedQuery);
+        if (!cancelled) setFacetCounts(counts);
+      } catch (err: any) {
+        console.error('Error counting filters:', err.message);
+      }
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isFilterSheetOpen, isMapView, isSearching, feedKey]);
 
+  useEffect(() => {
+    setSearchResults(null);
+    if (!trimmedQuery) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const results = await searchListings(trimmedQuery);
+        if (!cancelled) setSearchResults(results);
+      } catch (err: any) {
+        console.error('Search error:', err.message);
+        // Offline: fall back to prefix matching over the feed already loaded
+        const terms = searchTerms(trimmedQuery);
+        if (!cancelled) setSearchResults(feed.items.filter(item => {
+          const words = searchTerms(`${item.title} ${item.brand ?? ''}`);
+          return terms.every(term => words.some(word => word.startsWith(term)));
+        }));
+      }
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [trimmedQuery]);
+
+  const fetchFavorites = async () => {
+    if (!session?.user?.id) return;
     try {
-      const { data, error } = await supabase
-        .from('listings')
-        .select('*')
-        .order('created_at', { ascending: false });
+      setFavorites(new Set(await listFavoriteIds(session.user.id)));
+    } catch (err: any) {
+      console.error('Error fetching favorites:', err.message);
+    }
+  };
 
-      if (error) throw error;
-      if (data) setListings(data);
+  const fetchSavedSearches = async () => {
+    if (!session?.user?.id) return;
+    try {
+      setSavedSearches(await listSavedSearches(session.user.id));
     } catch (err: any) {
-      console.error('Fetch error:', err.message);
-    } finally {
-      setLoading(false);
+      console.error('Error fetching saved searches:', err.message);
     }
   };
 
-  const fetchFavorites = async () => {
+  // What "Save Search" stores: search spans every category, browsing is the active tab
+  const currentSearch = {
+    query: trimmedQuery,
+    filters: toFilterArgs(isSearching ? null : activeCategory, filters, isSearching ? undefined : feedQuery.leaseWindow)
+  };
+  const isSearchSaved = savedSearches.some(search => isSameSearch(search, currentSearch));
+
+  const handleSaveSearch = async () => {
     if (!session?.user?.id) return;
+    if (isSearchSaved) {
+      alert('This search is already saved. Manage your saved searches from your profile.');
+      return;
+    }
+    const name = window.prompt('Name this search. We\'ll let you know when a new listing matches.', defaultSearchName(currentSearch));
+    if (name === null) return;
+
     try {
-      const { data, error } = await supabase
-        .from('favorites')
-        .select('listing_id')
-        .eq('user_id', session.user.id);
-      if (error) throw error;
-      if (data) setFavorites(new Set(data.map(f => f.listing_id)));
+      const created = await createSavedSearch({
+        user_id: session.user.id,
+        name: name.trim().slice(0, 60) || defaultSearchName(currentSearch),
+        ...currentSearch
+      });
+      setSavedSearches(prev => [created, ...prev]);
     } catch (err: any) {
-      console.error('Error fetching favorites:', err.message);
+      alert('Could not save search: ' + (err.message || 'Unknown error'));
     }
   };
 
-  const toggleFavorite = async (e: React.MouseEvent, listingId: string) => {
+  const handleToggleFavorite = async (e: React.MouseEvent, listingId: string) => {
     e.stopPropagation();
     if (!session?.user?.id) return;
 
@@ -91,51 +230,53 @@ const Marketplace: React.FC<MarketplaceProps> = ({ session, onSelectItem, onFavo
     onFavoriteChange?.(!isFavorited);
 
     try {
-      if (isFavorited) {
-        await supabase
-          .from('favorites')
-          .delete()
-          .eq('user_id', session.user.id)
-          .eq('listing_id', listingId);
-      } else {
-        await supabase
-          .from('favorites')
-          .insert({ user_id: session.user.id, listing_id: listingId });
-      }
+      await toggleFavorite(session.user.id, listingId, isFavorited);
     } catch (err: any) {
       console.error('Error toggling favorite:', err.message);
     }
   };
 
-  const displayedItems = listings.filter(item => {
-    const matchesCategory = item.category === activeCategory;
-    const searchLower = searchQuery.toLowerCase();
-    const matchesSearch = item.title.toLowerCase().includes(searchLower);
-    return matchesCategory && matchesSearch;
-  });
-
-  const getThumbnail = (imageUrl: string) => {
-    if (!imageUrl) return 'https://images.unsplash.com/photo-1515886657613-9f3515b0c78f?auto=format&fit=crop&q=80&w=400';
-    try {
-      if (imageUrl.startsWith('[') && imageUrl.endsWith(']')) {
-        return JSON.parse(imageUrl)[0];
-      }
-      return imageUrl;
-    } catch (e) {
-      return imageUrl;
-    }
+  const showNewListings = () => {
+    live.showPending();
+    scrollRef.current?.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
+  const now = Date.now();
+  // Search results keep their relevance order unless a sort is picked
+  const searchItems = (searchResults ?? []).filter(item => matchesFeedFilters(item, filters, now));
+  const displayedItems = !isSearching ? feed.items : filters.sort ? sortListings(searchItems, filters.sort) : searchItems;
+  const sheetCounts = isSearching ? (searchResults ? countFacets(searchResults, filters, now) : null) : facetCounts;
+  const locationCounts = sheetCounts?.location ?? null;
+  const offCampusCount = Object.entries<number>(locationCounts ?? {})
+    .filter(([location]) => !PICKUP_LOCATIONS.includes(location))
+    .reduce((sum, [, count]) => sum + count, 0);
+  const filterCount = activeFilterCount(filters);
+  const highlightTerms = isSearching ? searchTerms(trimmedQuery) : [];
+
   return (
-    <div className="flex flex-col h-full bg-white overflow-y-auto no-scrollbar">
+    <div ref={scrollRef} className="flex flex-col h-full bg-white overflow-y-auto no-scrollbar">
+      {!isSearching && live.pending.length > 0 && (
+        <div className="sticky top-4 z-20 h-0 flex justify-center">
+          <button
+            onClick={showNewListings}
+            className="flex items-center space-x-1.5 bg-[#F15A24] text-white px-4 py-2.5 rounded-full shadow-lg shadow-orange-200 text-[10px] font-black uppercase tracking-widest active:scale-95 transition-all animate-in fade-in slide-in-from-top duration-300"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 10l7-7m0 0l7 7m-7-7v18" />
+            </svg>
+            <span>{live.pending.length} new {live.pending.length === 1 ? 'listing' : 'listings'}</span>
+          </button>
+        </div>
+      )}
+
       {/* Brand Header */}
       <div className="pt-12 px-6 pb-2">
         <h1 className="text-[40px] font-[900] text-[#F15A24] tracking-tighter leading-none">Hucksta</h1>
       </div>
 
       {/* Search Bar */}
-      <div className="px-6 mb-6 mt-4">
-        <div className="relative group">
+      <div className="px-6 mb-6 mt-4 flex items-center space-x-2">
+        <div className="relative group flex-1">
           <div className="absolute inset-y-0 left-5 flex items-center pointer-events-none">
             <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
@@ -149,33 +290,128 @@ const Marketplace: React.FC<MarketplaceProps> = ({ session, onSelectItem, onFavo
             className="w-full bg-[#F6F7F9] rounded-2xl py-4 pl-12 pr-6 text-xs font-semibold focus:outline-none transition-all placeholder-gray-400 border border-transparent focus:border-orange-100"
           />
         </div>
-      </div>
-
-      {/* Category Tabs */}
-      <div className="flex space-x-2 px-6 mb-6 overflow-x-auto no-scrollbar">
-        {categories.map((cat) => (
+        <button
+          onClick={handleSaveSearch}
+          aria-label={isSearchSaved ? 'Search saved' : 'Save search'}
+          className={`p-4 rounded-2xl transition-all active:scale-95 ${isSearchSaved ? 'bg-orange-50 text-[#F15A24]' : 'bg-[#F6F7F9] text-[#707E8C]'}`}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill={isSearchSaved ? 'currentColor' : 'none'} viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+          </svg>
+        </button>
+        {canShowMap && (
           <button
-            key={cat.name}
-            onClick={() => setActiveCategory(cat.name)}
-            className={`flex items-center space-x-2 px-5 py-3 rounded-2xl whitespace-nowrap transition-all active:scale-95 ${
-              activeCategory === cat.name 
-                ? 'bg-[#F15A24] text-white shadow-md shadow-orange-100' 
-                : 'bg-[#F6F7F9] text-[#707E8C] font-black'
-            }`}
+            onClick={() => setMapView(!isMapView)}
+            aria-label={isMapView ? 'Show grid' : 'Show map'}
+            className={`p-4 rounded-2xl transition-all active:scale-95 ${isMapView ? 'bg-[#F15A24] text-white shadow-md shadow-orange-100' : 'bg-[#F6F7F9] text-[#707E8C]'}`}
           >
-            <span className="text-lg">{cat.icon}</span>
-            <span className="text-[10px] font-black uppercase tracking-widest">{cat.name}</span>
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
+            </svg>
           </button>
-        ))}
+        )}
+        <button
+          onClick={() => setIsFilterSheetOpen(true)}
+          className={`relative p-4 rounded-2xl transition-all active:scale-95 ${filterCount > 0 || filters.sort ? 'bg-[#F15A24] text-white shadow-md shadow-orange-100' : 'bg-[#F6F7F9] text-[#707E8C]'}`}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z" />
+          </svg>
+          {filterCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 bg-gray-900 text-white text-[9px] font-black rounded-full flex items-center justify-center border-2 border-white">
+              {filterCount}
+            </span>
+          )}
+        </button>
       </div>
 
+      {isSearching ? (
+        <p className="px-6 mb-4 text-[10px] font-black text-gray-400 uppercase tracking-widest">
+          {searchResults === null ? 'Searching...' : `${displayedItems.length} ${displayedItems.length === 1 ? 'result' : 'results'} across all categories`}
+        </p>
+      ) : (
+        <>
+        {/* Category Tabs */}
+        <div className="flex space-x-2 px-6 mb-6 overflow-x-auto no-scrollbar">
+          {CATEGORIES.map((cat) => (
+            <button
+              key={cat.category}
+              onClick={() => setActiveCategory(cat.category)}
+              className={`flex items-center space-x-2 px-5 py-3 rounded-2xl whitespace-nowrap transition-all active:scale-95 ${
+                activeCategory === cat.category 
+                  ? 'bg-[#F15A24] text-white shadow-md shadow-orange-100' 
+                  : 'bg-[#F6F7F9] text-[#707E8C] font-black'
+              }`}
+            >
+              <span className="text-lg">{cat.emoji}</span>
+              <span className="text-[10px] font-black uppercase tracking-widest">{cat.category}</span>
+            </button>
+          ))}
+        </div>
+
+        {/* Housing: lease dates the listing must cover */}
+        {activeCategory === 'Housing' && (
+          <div className="flex items-end space-x-2 px-6 mb-6">
+            <label className="flex-1 space-y-1">
+              <span className="block text-[10px] font-black text-gray-400 uppercase tracking-widest ml-1">Move In</span>
+              <input
+                type="date"
+                value={leaseWindow.moveIn}
+                onChange={(e) => setLeaseWindow({ ...leaseWindow, moveIn: e.target.value })}
+                className="w-full bg-[#F6F7F9] rounded-2xl py-3 px-4 text-xs font-semibold focus:outline-none border border-transparent focus:border-orange-100"
+              />
+            </label>
+            <label className="flex-1 space-y-1">
+              <span className="block text-[10px] font-black text-gray-400 uppercase tracking-widest ml-1">Move Out</span>
+              <input
+                type="date"
+                value={leaseWindow.moveOut}
+                min={leaseWindow.moveIn || undefined}
+                onChange={(e) => setLeaseWindow({ ...leaseWindow, moveOut: e.target.value })}
+                className="w-full bg-[#F6F7F9] rounded-2xl py-3 px-4 text-xs font-semibold focus:outline-none border border-transparent focus:border-orange-100"
+              />
+            </label>
+            {(leaseWindow.moveIn || leaseWindow.moveOut) && (
+              <button
+                onClick={() => setLeaseWindow({ moveIn: '', moveOut: '' })}
+                className="px-3 py-3 text-[10px] font-black text-[#F15A24] uppercase tracking-widest"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+        )}
+        </>
+      )}
+
+      {/* Trending: only on the unfiltered feed, where it can't contradict the grid */}
+      {!isSearching && !isMapView && filterCount === 0 && !leaseWindow.moveIn && !leaseWindow.moveOut && trending.length > 0 && onSelectItem && (
+        <div className="px-6 mb-6">
+          <ListingRail title={`Trending in ${activeCategory}`} items={trending} onSelectItem={onSelectItem} />
+        </div>
+      )}
+
       {/* Item Grid - Tighter grid matching Profile view */}
       <div className="px-4 pb-32">
-        {loading ? (
+        {isMapView ? (
+          <div className="space-y-3">
+            <CampusMap
+              clusters={clusterLocations(locationCounts ?? {})}
+              selected={filters.locations}
+              onSelectCluster={handleSelectCluster}
+            />
+            <p className="text-center text-[10px] font-black text-gray-400 uppercase tracking-widest">
+              {locationCounts === null
+                ? 'Counting listings...'
+                : `Tap a building to see its listings${offCampusCount > 0 ? ` · ${offCampusCount} off campus` : ''}`}
+            </p>
+          </div>
+        ) : (!isSearching && feed.loading) || (isSearching && searchResults === null) ? (
           <div className="flex flex-col items-center justify-center py-20">
             <div className="w-8 h-8 border-4 border-[#F15A24] border-t-transparent rounded-full animate-spin"></div>
           </div>
         ) : displayedItems.length > 0 ? (
+          <>
           <div className="grid grid-cols-2 gap-3">
             {displayedItems.map((item) => {
               const isOwner = session?.user?.id === item.seller_id;
@@ -187,20 +423,23 @@ const Marketplace: React.FC<MarketplaceProps> = ({ session, onSelectItem, onFavo
                 >
                   <div className="relative aspect-[4/5] rounded-[1.5rem] overflow-hidden mb-2 bg-gray-50">
                     <img 
-                      src={getThumbnail(item.image_url)} 
+                      src={thumbnailUrl(item)} 
                       alt={item.title} 
                       className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-105" 
                     />
                     
                     {/* Feature: Condition Badge */}
-                    <div className="absolute top-2 left-2 bg-white/95 backdrop-blur px-2 py-1 rounded-lg border border-orange-100 shadow-sm">
-                      <span className="text-[7px] font-black text-[#F15A24] uppercase tracking-wider">{item.condition}</span>
-                    </div>
+                    {item.condition && (
+                      <div className="absolute top-2 left-2 bg-white/95 backdrop-blur px-2 py-1 rounded-lg border border-orange-100 shadow-sm">
+                        <span className="text-[7px] font-black text-[#F15A24] uppercase tracking-wider">{item.condition}</span>
+                      </div>
+                    )}
+                    <StatusBadge status={item.status} className="absolute bottom-2 left-2" />
 
                     {/* Favorite Button */}
                     {!isOwner && (
                       <button 
-                        onClick={(e) => toggleFavorite(e, item.id)}
+                        onClick={(e) => handleToggleFavorite(e, item.id)}
                         className={`absolute top-2 right-2 p-1.5 rounded-full bg-white shadow-md transition-all active:scale-90 ${
                           burstingId === item.id ? 'animate-heart-burst' : ''
                         }`}
@@ -221,18 +460,19 @@ const Marketplace: React.FC<MarketplaceProps> = ({ session, onSelectItem, onFavo
                   <div className="flex flex-col space-y-0.5 px-1.5 pb-1.5">
                     {/* Feature: Brand */}
                     <span className="text-[7px] font-black text-orange-400 uppercase tracking-[0.1em] truncate h-3">
-                      {item.brand || item.category}
+                      <Highlight text={item.brand || item.category} terms={highlightTerms} />
                     </span>
                     
                     {/* Feature: Name */}
                     <h3 className="font-bold text-[#1A1A1A] text-[10px] tracking-tight line-clamp-1 leading-tight mb-0.5">
-                      {item.title}
+                      <Highlight text={item.title} terms={highlightTerms} />
                     </h3>
 
                     {/* Features: Price and Location (Truncated) */}
                     <div className="flex justify-between items-baseline pt-0.5 space-x-2">
                       <span className="text-xs font-black text-[#F15A24] tracking-tighter shrink-0">
-                        ${Number(item.price).toFixed(2)}
+                        {formatListingPrice(item)}
+                        <WasPrice listing={item} className="ml-1 text-[7px] tracking-normal" />
                       </span>
                       <span className="text-[7px] font-black text-[#B0B0B0] uppercase tracking-wider text-right truncate flex-1">
                         {item.location}
@@ -243,6 +483,20 @@ const Marketplace: React.FC<MarketplaceProps> = ({ session, onSelectItem, onFavo
               );
             })}
           </div>
+
+          {/* Next page loads as this scrolls into view */}
+          {!isSearching && feed.hasMore && (
+            <div ref={sentinelRef} className="flex justify-center py-8">
+              {feed.loadMoreFailed ? (
+                <button onClick={feed.loadMore} className="text-[10px] font-black text-[#F15A24] uppercase tracking-widest">
+                  Couldn't load more · Retry
+                </button>
+              ) : (
+                <div className="w-6 h-6 border-4 border-[#F15A24] border-t-transparent rounded-full animate-spin"></div>
+              )}
+            </div>
+          )}
+          </>
         ) : (
           <div className="flex flex-col items-center justify-center py-20 text-center opacity-40">
             <svg xmlns="http://www.w3.org/2000/svg" className="h-12 w-12 mb-4 text-gray-300" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -252,6 +506,17 @@ const Marketplace: React.FC<MarketplaceProps> = ({ session, onSelectItem, onFavo
           </div>
         )}
       </div>
+
+      {isFilterSheetOpen && (
+        <FilterSheet
+          filters={filters}
+          facets={facets}
+          counts={sheetCounts}
+          isSearching={isSearching}
+          onChange={setFilters}
+          onClose={() => setIsFilterSheetOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,49 @@
+import React, { useEffect } from 'react';
+import { Listing } from '../types';
+import { thumbnailUrl } from '../lib/images';
+import { formatListingPrice } from './categories';
+
+interface MatchToastProps {
+  listing: Listing;
+  // e.g. "New match · Desks"
+  label: string;
+  onOpen: () => void;
+  onDismiss: () => void;
+}
+
+const DISMISS_AFTER_MS = 6000;
+
+// Slides in when a new listing matches one of the user's saved searches, or
+// one of their own is about to expire
+const MatchToast: React.FC<MatchToastProps> = ({ listing, label, onOpen, onDismiss }) => {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, DISMISS_AFTER_MS);
+    return () => clearTimeout(timer);
+  }, [listing.id]);
+
+  return (
+    <div className="absolute top-10 left-4 right-4 z-[65] animate-in slide-in-from-top fade-in duration-300">
+      <div
+        onClick={onOpen}
+        className="bg-white rounded-2xl shadow-2xl shadow-gray-300/50 border border-orange-100 p-3 flex items-center space-x-3 cursor-pointer active:scale-[0.98] transition-all"
+      >
+        <img src={thumbnailUrl(listing)} alt={listing.title} className="w-12 h-12 rounded-xl object-cover bg-gray-50 shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="text-[9px] font-black text-[#F15A24] uppercase tracking-widest truncate">{label}</p>
+          <p className="text-xs font-bold text-gray-900 truncate">{listing.title}</p>
+          <p className="text-[10px] font-black text-gray-400">{formatListingPrice(listing)}</p>
+        </div>
+        <button
+          onClick={(e) => { e.stopPropagation(); onDismiss(); }}
+          className="p-2 -mr-1 text-gray-300 hover:text-gray-500"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MatchToast;
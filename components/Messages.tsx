@@ -1,70 +1,29 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { supabase, isSupabaseConfigured } from '../lib/supabase';
-
-interface Message {
-  id: string;
-  text: string;
-  sender_id: string;
-  created_at: string;
-}
-
-interface Conversation {
-  id: string;
-  listing_id: string;
-  buyer_id: string;
-  seller_id: string;
-  other_user_id: string;
-}
+import { listConversationThreads, getProfile, listMessages, sendMessage, subscribeToChanges, defaultAvatarUrl, QueuedAction } from '../lib/api';
+import { ConversationThread, Message } from '../types';
+import { config } from '../lib/config';
+import { useQueuedActions } from '../lib/pwa';
 
 interface MessagesProps {
   session: any;
-  initialConversationId?: string | null;
+  conversationId?: string | null;
+  onOpenConversation: (conversationId: string | null) => void;
 }
 
-const Messages: React.FC<MessagesProps> = ({ session, initialConversationId }) => {
-  const [conversations, setConversations] = useState<Conversation[]>([]);
+const Messages: React.FC<MessagesProps> = ({ session, conversationId, onOpenConversation }) => {
+  const [conversations, setConversations] = useState<ConversationThread[]>([]);
   const [userNames, setUserNames] = useState<Record<string, string>>({});
   const [userAvatars, setUserAvatars] = useState<Record<string, string>>({});
-  const [selectedConversation, setSelectedConversation] = useState<Conversation | null>(null);
+  const [selectedConversation, setSelectedConversation] = useState<ConversationThread | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputValue, setInputValue] = useState('');
   const [loading, setLoading] = useState(true);
-  const [errorType, setErrorType] = useState<'none' | 'table_missing'>('none');
   const scrollRef = useRef<HTMLDivElement>(null);
+  const queuedActions = useQueuedActions();
 
   const currentUserId = session?.user?.id;
 
-  const chatSetupSQL = `
--- Create Conversations Table
-create table if not exists public.conversations (
-  id uuid default gen_random_uuid() primary key,
-  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
-  listing_id uuid references public.listings(id) on delete cascade,
-  buyer_id uuid not null,
-  seller_id uuid not null
-);
-
--- Create Messages Table
-create table if not exists public.messages (
-  id uuid default gen_random_uuid() primary key,
-  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
-  conversation_id uuid references public.conversations(id) on delete cascade,
-  sender_id uuid not null,
-  text text not null
-);
-
--- Enable RLS
-alter table public.conversations enable row level security;
-alter table public.messages enable row level security;
-
--- Policies
-create policy "Users see conversations" on public.conversations for select using (auth.uid() = buyer_id or auth.uid() = seller_id);
-create policy "Users start conversations" on public.conversations for insert with check (auth.uid() = buyer_id);
-create policy "Users see messages" on public.messages for select using (exists (select 1 from public.conversations where id = conversation_id and (buyer_id = auth.uid() or seller_id = auth.uid())));
-create policy "Users send messages" on public.messages for insert with check (auth.uid() = sender_id);
-  `.trim();
-
   useEffect(() => {
     if (currentUserId) {
       fetchConversations(currentUserId);
@@ -74,42 +33,19 @@ create policy "Users send messages" on public.messages for insert with check (au
   }, [currentUserId]);
 
   useEffect(() => {
-    if (!initialConversationId || conversations.length === 0) return;
-    const match = conversations.find((c) => c.id === initialConversationId);
+    if (!conversationId) {
+      setSelectedConversation(null);
+      return;
+    }
+    const match = conversations.find((c) => c.id === conversationId);
     if (match) setSelectedConversation(match);
-  }, [initialConversationId, conversations]);
+  }, [conversationId, conversations]);
 
   const fetchConversations = async (userId: string) => {
     try {
-      const { data, error } = await supabase
-        .from('conversations')
-        .select(`
-          id, listing_id, buyer_id, seller_id, created_at
-        `)
-        .or(`buyer_id.eq.${userId},seller_id.eq.${userId}`)
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        if ((error as any).code === '42P01') setErrorType('table_missing');
-        throw error;
-      }
-
-      if (data) {
-        // Group by user ID to ensure true 1:1 DMs (one thread per person pair)
-        const grouped = data.reduce((acc: Conversation[], conv: any) => {
-          const otherId = conv.buyer_id === userId ? conv.seller_id : conv.buyer_id;
-          if (otherId === userId) return acc;
-
-          const alreadyExists = acc.find(c => c.other_user_id === otherId);
-          if (!alreadyExists) {
-            acc.push({ ...conv, other_user_id: otherId });
-          }
-          return acc;
-        }, []);
-
-        setConversations(grouped);
-        grouped.forEach((conv: any) => fetchAndCacheUserProfile(conv.other_user_id));
-      }
+      const threads = await listConversationThreads(userId);
+      setConversations(threads);
+      threads.forEach((conv) => fetchAndCacheUserProfile(conv.other_user_id));
     } catch (err: any) {
       console.error('Error fetching conversations:', err.message || err);
     } finally {
@@ -120,17 +56,13 @@ create policy "Users send messages" on public.messages for insert with check (au
   const fetchAndCacheUserProfile = async (userId: string) => {
     if (!userId) return;
     try {
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('full_name, avatar_url, username')
-        .eq('id', userId)
-        .maybeSingle();
+      const profile = await getProfile(userId);
         
       if (profile) {
         const identity = profile.full_name || (profile.username ? `@${profile.username}` : `Student ${userId.slice(0, 4).toUpperCase()}`);
         setUserNames((s) => ({ ...s, [userId]: identity }));
         if (profile.avatar_url) {
-          setUserAvatars((s) => ({ ...s, [userId]: profile.avatar_url }));
+          setUserAvatars((s) => ({ ...s, [userId]: profile.avatar_url! }));
         }
       } else {
         // If profile is missing, keep a generic placeholder
@@ -140,35 +72,27 @@ create policy "Users send messages" on public.messages for insert with check (au
   };
 
   const fetchMessages = async (convId: string) => {
-    const { data, error } = await supabase
-      .from('messages')
-      .select('*')
-      .eq('conversation_id', convId)
-      .order('created_at', { ascending: true });
-    if (error) console.error('Error fetching messages:', error.message || error);
-    else setMessages(data || []);
+    try {
+      setMessages(await listMessages(convId));
+    } catch (err: any) {
+      console.error('Error fetching messages:', err.message || err);
+    }
   };
 
   useEffect(() => {
     if (!selectedConversation) return;
     fetchMessages(selectedConversation.id);
-    const channel = supabase
-      .channel(`chat-${selectedConversation.id}`)
-      .on('postgres_changes', {
-        event: 'INSERT',
-        schema: 'public',
-        table: 'messages',
-        filter: `conversation_id=eq.${selectedConversation.id}`
-      }, (payload) => {
+    return subscribeToChanges(`chat-${selectedConversation.id}`, [{
+      event: 'INSERT',
+      table: 'messages',
+      filter: `conversation_id=eq.${selectedConversation.id}`,
+      onChange: (payload) => {
         setMessages((prev) => {
           if (prev.some(m => m.id === payload.new.id)) return prev;
           return [...prev, payload.new as Message];
         });
-      })
-      .subscribe();
-    return () => {
-      supabase.removeChannel(channel);
-    };
+      }
+    }]);
   }, [selectedConversation]);
 
   useEffect(() => {
@@ -178,17 +102,17 @@ create policy "Users send messages" on public.messages for insert with check (au
         behavior: 'smooth'
       });
     }
-  }, [messages]);
+  }, [messages, queuedActions]);
 
   const handleSendMessage = async () => {
     if (!inputValue.trim() || !selectedConversation || !currentUserId) return;
     const text = inputValue.trim();
     setInputValue('');
-    await supabase.from('messages').insert({
-      conversation_id: selectedConversation.id,
-      sender_id: currentUserId,
-      text: text
-    });
+    try {
+      await sendMessage(selectedConversation.id, currentUserId, text);
+    } catch (err: any) {
+      console.error('Error sending message:', err.message || err);
+    }
   };
 
   const getUserDisplayName = (userId: string) => {
@@ -196,30 +120,20 @@ create policy "Users send messages" on public.messages for insert with check (au
   };
 
   const getAvatar = (userId: string) => {
-    return userAvatars[userId] || `https://api.dicebear.com/7.x/avataaars/svg?seed=${userId}`;
+    return userAvatars[userId] || defaultAvatarUrl(userId);
   };
 
-  if (errorType === 'table_missing') {
-    return (
-      <div className="flex flex-col h-full bg-white p-8 justify-center items-center text-center space-y-4">
-        <div className="bg-orange-50 p-6 rounded-[2rem] text-orange-600">
-          <svg xmlns="http://www.w3.org/2000/svg" className="h-12 w-12" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
-          </svg>
-        </div>
-        <h2 className="text-xl font-black text-gray-900">Setup Messaging</h2>
-        <pre className="bg-gray-900 text-emerald-400 p-4 rounded-2xl text-[8px] overflow-x-auto whitespace-pre font-mono h-48 no-scrollbar border border-white/10 shadow-inner select-all w-full">{chatSetupSQL}</pre>
-        <button onClick={() => window.location.reload()} className="w-full bg-orange-600 text-white py-3 rounded-2xl font-bold">Check Again</button>
-      </div>
+  if (selectedConversation) {
+    // Sent while offline and waiting for the connection to come back
+    const pendingMessages = queuedActions.filter((action): action is Extract<QueuedAction, { kind: 'message' }> =>
+      action.kind === 'message' && action.conversationId === selectedConversation.id && action.userId === currentUserId
     );
-  }
 
-  if (selectedConversation) {
     return (
       <div className="flex flex-col h-full bg-white animate-in slide-in-from-right duration-300">
         {/* Header */}
         <div className="pt-12 pb-4 px-6 flex items-center border-b border-gray-100 space-x-4 bg-white/80 backdrop-blur-md sticky top-0 z-50">
-          <button onClick={() => setSelectedConversation(null)} className="p-2 -ml-2 text-gray-400">
+          <button onClick={() => onOpenConversation(null)} className="p-2 -ml-2 text-gray-400">
             <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M15 19l-7-7 7-7" />
             </svg>
@@ -255,6 +169,14 @@ create policy "Users send messages" on public.messages for insert with check (au
               </div>
             );
           })}
+          {pendingMessages.map((action) => (
+            <div key={action.id} className="flex flex-col items-end animate-in fade-in zoom-in duration-200">
+              <div className="max-w-[80%] px-5 py-3 rounded-[1.5rem] text-sm shadow-sm bg-orange-300 text-white rounded-br-none">
+                {action.text}
+              </div>
+              <span className="text-[9px] font-black text-gray-400 uppercase tracking-widest mt-1 mr-1">Waiting for connection</span>
+            </div>
+          ))}
         </div>
 
         {/* Input bar */}
@@ -285,7 +207,7 @@ create policy "Users send messages" on public.messages for insert with check (au
         <h1 className="text-4xl font-black text-gray-900 tracking-tight">Messages</h1>
         <div className="flex items-center space-x-2 mt-1">
           <div className="w-2 h-2 bg-emerald-500 rounded-full animate-pulse"></div>
-          <span className="text-[10px] font-black text-emerald-600 uppercase tracking-widest">UTD Campus Network</span>
+          <span className="text-[10px] font-black text-emerald-600 uppercase tracking-widest">{config.campusName} Campus Network</span>
         </div>
       </div>
       <div className="flex-1 overflow-y-auto pb-24 p-4 space-y-3 bg-gray-50/30">
@@ -308,7 +230,7 @@ create policy "Users send messages" on public.messages for insert with check (au
           conversations.map((chat) => (
             <div 
               key={chat.id} 
-              onClick={() => setSelectedConversation(chat)}
+              onClick={() => onOpenConversation(chat.id)}
               className="p-5 flex items-center space-x-4 bg-white rounded-[2rem] border border-gray-100 shadow-sm active:scale-[0.98] transition-all cursor-pointer hover:shadow-md hover:border-orange-200 group"
             >
               <div className="relative">
@@ -5,11 +5,13 @@ import { Tab } from '../types';
 interface NavigationProps {
   activeTab: Tab;
   unreadCount?: number;
+  // Unread alerts: saved-search matches, price drops, expiry reminders
+  alertCount?: number;
   userAvatar?: string;
   onTabChange: (tab: Tab) => void;
 }
 
-const Navigation: React.FC<NavigationProps> = ({ activeTab, unreadCount = 0, userAvatar, onTabChange }) => {
+const Navigation: React.FC<NavigationProps> = ({ activeTab, unreadCount = 0, alertCount = 0, userAvatar, onTabChange }) => {
   return (
     <nav className="absolute bottom-0 left-0 right-0 bg-white/95 backdrop-blur-xl border-t border-gray-100 px-8 pt-4 pb-8 flex justify-between items-center z-50 shadow-[0_-10px_40px_rgba(0,0,0,0.02)]">
       <button 
@@ -55,8 +57,13 @@ const Navigation: React.FC<NavigationProps> = ({ activeTab, unreadCount = 0, use
 
       <button 
         onClick={() => onTabChange(Tab.PROFILE)}
-        className={`flex flex-col items-center transition-all duration-300 ${activeTab === Tab.PROFILE ? 'scale-110' : 'hover:scale-105'}`}
+        className={`flex flex-col items-center relative transition-all duration-300 ${activeTab === Tab.PROFILE ? 'scale-110' : 'hover:scale-105'}`}
       >
+        {alertCount > 0 && (
+          <div 
+            className="absolute -top-1 -right-1.5 z-10 w-3.5 h-3.5 bg-red-600 rounded-full border-2 border-white shadow-sm animate-pulse"
+          />
+        )}
         <div className={`w-8 h-8 rounded-xl overflow-hidden border-2 transition-all ${activeTab === Tab.PROFILE ? 'border-orange-600 ring-4 ring-orange-50' : 'border-gray-200'}`}>
           {userAvatar ? (
             <img src={userAvatar} alt="Profile" className="w-full h-full object-cover" />
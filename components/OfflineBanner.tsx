@@ -0,0 +1,27 @@
+import React from 'react';
+import { useOnlineStatus, useQueuedActions } from '../lib/pwa';
+
+interface OfflineBannerProps {
+  userId?: string;
+}
+
+const OfflineBanner: React.FC<OfflineBannerProps> = ({ userId }) => {
+  const isOnline = useOnlineStatus();
+  const pendingCount = useQueuedActions().filter(action => action.userId === userId).length;
+
+  if (isOnline && pendingCount === 0) return null;
+
+  const pending = `${pendingCount} ${pendingCount === 1 ? 'action' : 'actions'}`;
+  return (
+    <div className={`absolute top-0 left-0 right-0 z-[60] px-4 pt-3 pb-2 flex items-center justify-center space-x-2 ${isOnline ? 'bg-emerald-600' : 'bg-gray-900'}`}>
+      <div className={`w-2 h-2 rounded-full ${isOnline ? 'bg-white animate-pulse' : 'bg-red-500'}`}></div>
+      <span className="text-[10px] font-black text-white uppercase tracking-widest">
+        {isOnline
+          ? `Syncing ${pending}...`
+          : pendingCount > 0 ? `Offline · ${pending} will send when you reconnect` : 'Offline · Showing saved feed'}
+      </span>
+    </div>
+  );
+};
+
+export default OfflineBanner;
@@ -0,0 +1,195 @@
+import React, { useState, useEffect } from 'react';
+import {
+  listSavedSearches,
+  updateSavedSearch,
+  deleteSavedSearch,
+  listNotifications,
+  markNotificationsRead,
+  listListingsByIds
+} from '../lib/api';
+import { AppNotification, Listing, SavedSearch } from '../types';
+import { describeSavedSearch } from '../lib/savedSearches';
+import { thumbnailUrl } from '../lib/images';
+import { isExpired, formatTimeLeft } from '../lib/expiry';
+import { formatListingPrice, formatPreviousPrice } from './categories';
+
+interface SavedSearchesProps {
+  session: any;
+  onBack: () => void;
+  onRunSearch: (search: SavedSearch) => void;
+  onSelectItem: (item: Listing) => void;
+}
+
+const timeAgo = (date: string) => {
+  const minutes = Math.floor((Date.now() - new Date(date).getTime()) / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 60 * 24) return `${Math.floor(minutes / 60)}h ago`;
+  return `${Math.floor(minutes / (60 * 24))}d ago`;
+};
+
+// What each kind of alert says under the listing's price
+const alertLabel = (alert: AppNotification, listing: Listing, searches: SavedSearch[]): string => {
+  switch (alert.kind) {
+    case 'price_drop': {
+      const previous = formatPreviousPrice(listing);
+      return previous ? `Price drop · was ${previous}` : 'Price drop';
+    }
+    case 'listing_expiring':
+      if (isExpired(listing)) return 'Your listing expired · tap to renew';
+      return listing.expires_at ? `Expires in ${formatTimeLeft(new Date(listing.expires_at).getTime())}` : 'Expiring soon';
+    default:
+      return `New match · ${searches.find(s => s.id === alert.saved_search_id)?.name ?? 'Saved search'}`;
+  }
+};
+
+const SavedSearches: React.FC<SavedSearchesProps> = ({ session, onBack, onRunSearch, onSelectItem }) => {
+  const userId: string = session.user.id;
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [alerts, setAlerts] = useState<AppNotification[]>([]);
+  const [listings, setListings] = useState<Listing[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchAll();
+  }, [userId]);
+
+  const fetchAll = async () => {
+    try {
+      const [searchRows, alertRows] = await Promise.all([listSavedSearches(userId), listNotifications(userId)]);
+      setSearches(searchRows);
+      setAlerts(alertRows);
+      setListings(await listListingsByIds([...new Set(alertRows.map(a => a.listing_id).filter((id): id is string => !!id))]));
+      // Unread rows keep their highlight for this visit; the nav dot clears now
+      if (alertRows.some(a => !a.read_at)) await markNotificationsRead(userId);
+    } catch (err: any) {
+      console.error('Error fetching saved searches:', err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRename = async (search: SavedSearch) => {
+    const name = window.prompt('Rename this search', search.name);
+    if (name === null || !name.trim() || name.trim() === search.name) return;
+    const trimmed = name.trim().slice(0, 60);
+    setSearches(prev => prev.map(s => s.id === search.id ? { ...s, name: trimmed } : s));
+    try {
+      await updateSavedSearch(search.id, { name: trimmed });
+    } catch (err: any) {
+      setSearches(prev => prev.map(s => s.id === search.id ? search : s));
+      alert('Could not rename search: ' + (err.message || 'Unknown error'));
+    }
+  };
+
+  const handleTogglePaused = async (search: SavedSearch) => {
+    setSearches(prev => prev.map(s => s.id === search.id ? { ...s, paused: !search.paused } : s));
+    try {
+      await updateSavedSearch(search.id, { paused: !search.paused });
+    } catch (err: any) {
+      setSearches(prev => prev.map(s => s.id === search.id ? search : s));
+      alert('Could not update search: ' + (err.message || 'Unknown error'));
+    }
+  };
+
+  const handleDelete = async (search: SavedSearch) => {
+    if (!window.confirm(`Delete "${search.name}"? You'll stop getting alerts for it.`)) return;
+    try {
+      await deleteSavedSearch(search.id);
+      setSearches(prev => prev.filter(s => s.id !== search.id));
+      setAlerts(prev => prev.filter(a => a.saved_search_id !== search.id));
+    } catch (err: any) {
+      alert('Error deleting search: ' + (err.message || 'Unknown error'));
+    }
+  };
+
+  const matches = alerts
+    .map(alert => ({ alert, listing: listings.find(l => l.id === alert.listing_id) }))
+    .filter((match): match is { alert: AppNotification; listing: Listing } => !!match.listing);
+
+  return (
+    <div className="h-full bg-white flex flex-col">
+      <div className="pt-12 px-6 pb-4 flex items-center space-x-3 border-b border-gray-50">
+        <button onClick={onBack} className="p-2 -ml-2 text-gray-400 hover:text-gray-600">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <h2 className="text-xl font-black text-gray-900 tracking-tight">Searches & Alerts</h2>
+      </div>
+
+      <div className="flex-1 overflow-y-auto no-scrollbar p-4 pb-24 bg-gray-50/30 space-y-6">
+        {loading ? (
+          <div className="flex justify-center py-20">
+            <div className="w-8 h-8 border-4 border-orange-500 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : searches.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-20 text-center px-8">
+            <p className="font-black text-sm text-gray-800 uppercase tracking-tighter">No saved searches yet</p>
+            <p className="text-[10px] text-gray-400 font-bold uppercase tracking-widest mt-1">
+              Tap the bookmark next to the search bar to get alerts for new matches
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {searches.map((search) => {
+              const unread = alerts.filter(a => a.saved_search_id === search.id && !a.read_at).length;
+              return (
+                <div key={search.id} className={`bg-white rounded-2xl border border-gray-100 shadow-sm p-4 space-y-3 ${search.paused ? 'opacity-60' : ''}`}>
+                  <div className="flex items-start justify-between space-x-3 cursor-pointer" onClick={() => onRunSearch(search)}>
+                    <div className="min-w-0">
+                      <p className="text-sm font-black text-gray-900 truncate">{search.name}</p>
+                      <p className="text-[10px] font-bold text-gray-400 truncate">{describeSavedSearch(search)}</p>
+                    </div>
+                    {search.paused ? (
+                      <span className="shrink-0 px-2 py-1 rounded-lg bg-gray-100 text-[8px] font-black text-gray-500 uppercase tracking-widest">Paused</span>
+                    ) : unread > 0 && (
+                      <span className="shrink-0 px-2 py-1 rounded-lg bg-red-600 text-[8px] font-black text-white uppercase tracking-widest">{unread} new</span>
+                    )}
+                  </div>
+                  <div className="flex space-x-2">
+                    <button onClick={() => handleRename(search)} className="flex-1 py-2 rounded-xl bg-[#F6F7F9] text-[9px] font-black text-[#707E8C] uppercase tracking-widest active:scale-95 transition-all">
+                      Rename
+                    </button>
+                    <button onClick={() => handleTogglePaused(search)} className="flex-1 py-2 rounded-xl bg-[#F6F7F9] text-[9px] font-black text-[#707E8C] uppercase tracking-widest active:scale-95 transition-all">
+                      {search.paused ? 'Resume' : 'Pause'}
+                    </button>
+                    <button onClick={() => handleDelete(search)} className="flex-1 py-2 rounded-xl bg-red-50 text-[9px] font-black text-red-500 uppercase tracking-widest active:scale-95 transition-all">
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {!loading && matches.length > 0 && (
+          <div className="space-y-3">
+            <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest px-1">Recent Alerts</p>
+            {matches.map(({ alert, listing }) => (
+              <div
+                key={alert.id}
+                onClick={() => onSelectItem(listing)}
+                className="bg-white rounded-2xl border border-gray-100 shadow-sm p-2 flex items-center space-x-3 cursor-pointer active:scale-[0.98] transition-all"
+              >
+                <img src={thumbnailUrl(listing)} alt={listing.title} className="w-12 h-12 rounded-xl object-cover bg-gray-50 shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs font-bold text-gray-900 truncate">{listing.title}</p>
+                  <p className="text-[10px] font-black text-[#F15A24]">{formatListingPrice(listing)}</p>
+                  <p className="text-[9px] font-bold text-gray-400 truncate">{alertLabel(alert, listing, searches)}</p>
+                </div>
+                <div className="flex items-center space-x-2 pr-2 shrink-0">
+                  <span className="text-[9px] font-bold text-gray-400">{timeAgo(alert.created_at)}</span>
+                  {!alert.read_at && <div className="w-2 h-2 rounded-full bg-red-600"></div>}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SavedSearches;
@@ -1,46 +1,135 @@
 
-import React from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Category } from '../types';
-import ClothingListingForm from './ClothingListingForm';
-import FurnitureListingForm from './FurnitureListingForm';
-import ElectronicsListingForm from './ElectronicsListingForm';
+import ListingForm from './ListingForm';
+import { CATEGORIES, getCategoryDefinition } from './categories';
+import { discardDraft, listDrafts, loadDraft, LocalDraft } from '../lib/drafts';
 
 interface SellFlowProps {
   category: Category | null;
+  // Draft the form should resume, from the URL
+  draftId?: string;
   onSelectCategory: (cat: Category | null) => void;
+  onOpenDraft: (draft: LocalDraft) => void;
+  // The open form was saved as this draft; kept in the URL so a reload resumes it
+  onDraftSaved: (draftId: string) => void;
+  onStartBulk: () => void;
   onCancel: () => void;
   onSuccess: () => void;
   session: any;
 }
 
+const timeAgo = (date: string) => {
+  const minutes = Math.floor((Date.now() - new Date(date).getTime()) / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 60 * 24) return `${Math.floor(minutes / 60)}h ago`;
+  return `${Math.floor(minutes / (60 * 24))}d ago`;
+};
+
+// First photo of a draft, read straight from the stored file
+const DraftThumb: React.FC<{ draft: LocalDraft; className: string }> = ({ draft, className }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const file = draft.photos[0];
+
+  useEffect(() => {
+    if (!file) return setUrl(null);
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  const definition = getCategoryDefinition(draft.category);
+  if (url) return <img src={url} alt="" className={`${className} object-cover`} />;
+  return (
+    <div className={`${className} ${definition?.theme.tileIcon ?? 'bg-gray-300'} flex items-center justify-center text-white`}>
+      {definition?.tile.icon}
+    </div>
+  );
+};
+
 const SellFlow: React.FC<SellFlowProps> = ({ 
   category, 
+  draftId,
   onSelectCategory, 
+  onOpenDraft,
+  onDraftSaved,
+  onStartBulk,
   onCancel, 
   onSuccess,
   session
 }) => {
-  if (category === 'Clothing') {
-    return (
-      <ClothingListingForm 
-        onBack={() => onSelectCategory(null)} 
-        onSuccess={onSuccess}
-        session={session}
-      />
-    );
-  }
-  if (category === 'Furniture') {
-    return (
-      <FurnitureListingForm 
-        onBack={() => onSelectCategory(null)} 
-        onSuccess={onSuccess}
-        session={session}
-      />
-    );
-  }
-  if (category === 'Electronics') {
+  const userId: string = session.user.id;
+  const [drafts, setDrafts] = useState<LocalDraft[]>([]);
+  // The draft being resumed, once loaded
+  const [draft, setDraft] = useState<LocalDraft | null>(null);
+  // Id the open form saved itself under; it is already showing that draft
+  const savedDraftId = useRef<string | null>(null);
+  const [draftMissing, setDraftMissing] = useState(false);
+
+  const definition = category ? getCategoryDefinition(category) : undefined;
+
+  useEffect(() => {
+    if (definition) return;
+    let cancelled = false;
+    listDrafts(userId)
+      .then((rows) => { if (!cancelled) setDrafts(rows); })
+      .catch(err => console.error('Error loading drafts:', err.message || err));
+    return () => { cancelled = true; };
+  }, [userId, definition]);
+
+  useEffect(() => {
+    setDraftMissing(false);
+    if (!draftId) {
+      setDraft(null);
+      savedDraftId.current = null;
+      return;
+    }
+    if (draftId === savedDraftId.current || draftId === draft?.id) return;
+    let cancelled = false;
+    loadDraft(userId, draftId)
+      .then((loaded) => {
+        if (cancelled) return;
+        setDraft(loaded);
+        setDraftMissing(!loaded);
+      })
+      .catch((err) => {
+        console.error('Error loading draft:', err.message || err);
+        if (!cancelled) setDraftMissing(true);
+      });
+    return () => { cancelled = true; };
+  }, [userId, draftId]);
+
+  const handleDiscard = async (target: LocalDraft) => {
+    if (!window.confirm('Discard this draft? Its details and photos will be deleted.')) return;
+    try {
+      await discardDraft(target.id);
+      setDrafts(prev => prev.filter(d => d.id !== target.id));
+    } catch (err: any) {
+      alert('Error discarding draft: ' + (err.message || 'Unknown error'));
+    }
+  };
+
+  if (definition) {
+    // A draft that no longer exists opens as a new listing
+    const resumed = draft && draft.id === draftId && draft.category === definition.category ? draft : undefined;
+    if (draftId && draftId !== savedDraftId.current && draft?.id !== draftId && !draftMissing) {
+      return (
+        <div className="h-full w-full flex items-center justify-center bg-white">
+          <div className="w-8 h-8 border-4 border-orange-500 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      );
+    }
     return (
-      <ElectronicsListingForm 
+      <ListingForm 
+        key={`${definition.category}-${resumed?.id ?? 'new'}`}
+        definition={definition}
+        draft={resumed}
+        onDraftSaved={(id) => {
+          if (id === draftId) return;
+          savedDraftId.current = id;
+          onDraftSaved(id);
+        }}
         onBack={() => onSelectCategory(null)} 
         onSuccess={onSuccess}
         session={session}
@@ -61,43 +150,52 @@ const SellFlow: React.FC<SellFlowProps> = ({
         </div>
       </div>
       <div className="flex-1 bg-orange-600 p-6 space-y-4 pb-32 overflow-y-auto no-scrollbar">
-        <button onClick={() => onSelectCategory('Clothing')} className="w-full bg-white rounded-3xl p-6 flex items-center justify-between text-left transition-transform active:scale-[0.98] shadow-lg">
-          <div className="flex items-center space-x-4">
-            <div className="w-16 h-16 bg-orange-500 rounded-2xl flex items-center justify-center text-white">
-              <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h10M7 11h10" />
-              </svg>
-            </div>
-            <div>
-              <h2 className="text-xl font-bold text-gray-800">Clothing</h2>
-              <p className="text-sm text-gray-500">Shirts, Jackets, Hoodies & More</p>
-            </div>
+        {drafts.length > 0 && (
+          <div className="space-y-2 pb-2">
+            <h2 className="text-white/80 text-[10px] font-black uppercase tracking-widest px-1">Continue your draft</h2>
+            {drafts.map((d) => (
+              <div key={d.id} className="w-full bg-white/95 rounded-3xl p-3 flex items-center space-x-3 shadow-lg">
+                <button onClick={() => onOpenDraft(d)} className="flex-1 min-w-0 flex items-center space-x-3 text-left active:scale-[0.98] transition-transform">
+                  <DraftThumb draft={d} className="w-12 h-12 rounded-2xl flex-shrink-0" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-bold text-gray-800 truncate">{d.values.title?.trim() || `Untitled ${d.category.toLowerCase()} listing`}</p>
+                    <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">
+                      {d.category} · {timeAgo(d.updated_at)}
+                      {d.photos.length < d.photo_count && ' · photos on another device'}
+                    </p>
+                  </div>
+                </button>
+                <button
+                  onClick={() => handleDiscard(d)}
+                  aria-label="Discard draft"
+                  className="p-2 rounded-full text-gray-300 hover:text-red-500 active:scale-90 transition-all"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                </button>
+              </div>
+            ))}
           </div>
-          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-orange-600" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" /></svg>
-        </button>
-        <button onClick={() => onSelectCategory('Furniture')} className="w-full bg-white rounded-3xl p-6 flex items-center justify-between text-left transition-transform active:scale-[0.98] shadow-lg">
-          <div className="flex items-center space-x-4">
-            <div className="w-16 h-16 bg-emerald-600 rounded-2xl flex items-center justify-center text-white">
-              <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 10h16M10 14h4M4 18h16" /></svg>
-            </div>
-            <div>
-              <h2 className="text-xl font-bold text-gray-800">Furniture</h2>
-              <p className="text-sm text-gray-500">Desks, Chairs, Beds & More</p>
-            </div>
-          </div>
-          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-emerald-600" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" /></svg>
-        </button>
-        <button onClick={() => onSelectCategory('Electronics')} className="w-full bg-white rounded-3xl p-6 flex items-center justify-between text-left transition-transform active:scale-[0.98] shadow-lg">
-          <div className="flex items-center space-x-4">
-            <div className="w-16 h-16 bg-purple-600 rounded-2xl flex items-center justify-center text-white">
-              <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 18h.01M8 21h8a2 2 0 002-2V5a2 2 0 00-2-2H8a2 2 0 00-2 2v14a2 2 0 002 2z" /></svg>
-            </div>
-            <div>
-              <h2 className="text-xl font-bold text-gray-800">Electronics</h2>
-              <p className="text-sm text-gray-500">Laptops, Phones, & More</p>
+        )}
+        {CATEGORIES.map((def) => (
+          <button key={def.category} onClick={() => onSelectCategory(def.category)} className="w-full bg-white rounded-3xl p-6 flex items-center justify-between text-left transition-transform active:scale-[0.98] shadow-lg">
+            <div className="flex items-center space-x-4">
+              <div className={`w-16 h-16 ${def.theme.tileIcon} rounded-2xl flex items-center justify-center text-white`}>
+                {def.tile.icon}
+              </div>
+              <div>
+                <h2 className="text-xl font-bold text-gray-800">{def.category}</h2>
+                <p className="text-sm text-gray-500">{def.tile.subtitle}</p>
+              </div>
             </div>
+            <svg xmlns="http://www.w3.org/2000/svg" className={`h-6 w-6 ${def.theme.chevron}`} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" /></svg>
+          </button>
+        ))}
+        <button onClick={onStartBulk} className="w-full border-2 border-dashed border-white/50 rounded-3xl p-5 flex items-center justify-between text-left text-white transition-transform active:scale-[0.98]">
+          <div>
+            <h2 className="text-lg font-bold">Moving out?</h2>
+            <p className="text-sm text-white/80">List a whole batch of items at once</p>
           </div>
-          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-purple-600" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" /></svg>
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" /></svg>
         </button>
       </div>
     </div>
@@ -0,0 +1,31 @@
+import React, { useState, useEffect } from 'react';
+import { listSimilarListings } from '../lib/api';
+import { Listing } from '../types';
+import ListingRail from './ListingRail';
+
+interface SimilarItemsProps {
+  listing: Listing;
+  viewerId?: string;
+  onSelectItem: (item: Listing) => void;
+}
+
+const SimilarItems: React.FC<SimilarItemsProps> = ({ listing, viewerId, onSelectItem }) => {
+  const [items, setItems] = useState<Listing[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    listSimilarListings(listing, viewerId)
+      .then((rows) => { if (!cancelled) setItems(rows); })
+      .catch((err) => console.error('Error loading similar items:', err.message || err))
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [listing.id, viewerId]);
+
+  if (!loading && items.length === 0) return null;
+
+  return <ListingRail title="Similar Items" items={items} loading={loading} onSelectItem={onSelectItem} className="mt-8" />;
+};
+
+export default SimilarItems;
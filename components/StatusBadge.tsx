@@ -0,0 +1,28 @@
+import React from 'react';
+import { ListingStatus } from '../types';
+
+const STYLES: Record<Exclude<ListingStatus, 'available'> | 'expired', string> = {
+  pending: 'bg-amber-400 text-white',
+  sold: 'bg-gray-900 text-white',
+  expired: 'bg-gray-400 text-white'
+};
+
+interface StatusBadgeProps {
+  status?: ListingStatus;
+  // Past its expires_at; shown unless it sold
+  expired?: boolean;
+  className?: string;
+}
+
+// "Pending" / "Sold" / "Expired" pill for listing cards; nothing while available
+const StatusBadge: React.FC<StatusBadgeProps> = ({ status, expired = false, className = '' }) => {
+  const label = status === 'sold' ? status : expired ? 'expired' : status;
+  if (!label || label === 'available') return null;
+  return (
+    <div className={`px-2 py-1 rounded-lg shadow-sm ${STYLES[label]} ${className}`}>
+      <span className="text-[7px] font-black uppercase tracking-wider">{label}</span>
+    </div>
+  );
+};
+
+export default StatusBadge;
@@ -0,0 +1,12 @@
+import React from 'react';
+import { Listing } from '../types';
+import { formatPreviousPrice } from './categories';
+
+// "was $X" after a price drop; nothing otherwise
+const WasPrice: React.FC<{ listing: Pick<Listing, 'price' | 'previous_price' | 'category'>; className?: string }> = ({ listing, className = '' }) => {
+  const previous = formatPreviousPrice(listing);
+  if (!previous) return null;
+  return <span className={`font-bold text-gray-400 ${className}`}>was <span className="line-through">{previous}</span></span>;
+};
+
+export default WasPrice;
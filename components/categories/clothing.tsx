@@ -0,0 +1,58 @@
+import React from 'react';
+import { CategoryDefinition } from './types';
+import { brandField, conditionField, descriptionField, locationField, priceField, titleField } from './fields';
+
+const clothing: CategoryDefinition = {
+  category: 'Clothing',
+  emoji: '👕',
+  tile: {
+    subtitle: 'Shirts, Jackets, Hoodies & More',
+    icon: (
+      <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h10M7 11h10" />
+      </svg>
+    )
+  },
+  form: {
+    title: 'List Clothing',
+    subtitle: 'Campus Marketplace',
+    submitLabel: 'Post Clothing Item',
+    submittingLabel: 'Syncing to Campus...',
+    successMessage: 'Clothing posted to campus!'
+  },
+  theme: {
+    header: 'bg-orange-600',
+    button: 'bg-orange-600 shadow-orange-100 hover:bg-orange-700',
+    chip: 'bg-orange-600 shadow-orange-100',
+    ring: 'focus:ring-orange-500',
+    addPhotoHover: 'hover:border-orange-300',
+    addPhotoIcon: 'text-orange-500',
+    tileIcon: 'bg-orange-500',
+    chevron: 'text-orange-600'
+  },
+  minPhotos: 1,
+  fields: [
+    titleField('UTD Hoodie'),
+    brandField('Nike, Champion'),
+    { kind: 'text', name: 'size', label: 'Size', half: true, placeholder: 'S, M, L, XL' },
+    { kind: 'chips', name: 'gender', label: 'Gender', options: ['Mens', 'Womens', 'Unisex'], defaultValue: 'Unisex', fill: true },
+    priceField(),
+    locationField(),
+    descriptionField('Tell other students about this item...'),
+    conditionField()
+  ],
+  renderDetails: (listing) => (
+    <div className="flex flex-wrap gap-2 mb-6">
+      <div className="bg-gray-900 px-4 py-2 rounded-xl flex items-center space-x-2">
+        <span className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Size</span>
+        <span className="text-xs font-bold text-white uppercase">{listing.size || 'N/A'}</span>
+      </div>
+      <div className="bg-orange-600 px-4 py-2 rounded-xl flex items-center space-x-2">
+        <span className="text-[10px] font-black text-orange-200 uppercase tracking-widest">Type</span>
+        <span className="text-xs font-bold text-white uppercase">{listing.gender || 'Unisex'}</span>
+      </div>
+    </div>
+  )
+};
+
+export default clothing;
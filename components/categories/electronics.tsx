@@ -0,0 +1,42 @@
+import React from 'react';
+import { CategoryDefinition } from './types';
+import { brandField, conditionField, descriptionField, locationField, priceField, titleField } from './fields';
+
+const electronics: CategoryDefinition = {
+  category: 'Electronics',
+  emoji: '💻',
+  tile: {
+    subtitle: 'Laptops, Phones, & More',
+    icon: (
+      <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 18h.01M8 21h8a2 2 0 002-2V5a2 2 0 00-2-2H8a2 2 0 00-2 2v14a2 2 0 002 2z" /></svg>
+    )
+  },
+  form: {
+    title: 'List Electronics',
+    subtitle: 'Tech & Gadgets',
+    submitLabel: 'Post Tech Item',
+    submittingLabel: 'Syncing to Campus...',
+    successMessage: 'Electronics listed successfully!'
+  },
+  theme: {
+    header: 'bg-purple-600',
+    button: 'bg-purple-600 shadow-purple-100 hover:bg-purple-700',
+    chip: 'bg-purple-600 shadow-purple-100',
+    ring: 'focus:ring-purple-500',
+    addPhotoHover: 'hover:border-purple-300',
+    addPhotoIcon: 'text-purple-500',
+    tileIcon: 'bg-purple-600',
+    chevron: 'text-purple-600'
+  },
+  minPhotos: 1,
+  fields: [
+    titleField('MacBook Pro', true),
+    brandField('Apple, Dell, Sony'),
+    priceField(),
+    locationField(),
+    descriptionField('Specs, battery life, condition details...'),
+    conditionField()
+  ]
+};
+
+export default electronics;
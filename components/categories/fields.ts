@@ -0,0 +1,60 @@
+import { PICKUP_LOCATIONS } from '../../lib/locations';
+import { FieldDefinition } from './types';
+
+export const CONDITIONS = ['New', 'Like New', 'Excellent', 'Good', 'Fair'];
+
+export const titleField = (placeholder: string, half = false): FieldDefinition => ({
+  kind: 'text',
+  name: 'title',
+  label: 'Item Name',
+  required: true,
+  half,
+  placeholder
+});
+
+export const brandField = (placeholder: string, half = true): FieldDefinition => ({
+  kind: 'text',
+  name: 'brand',
+  label: 'Brand',
+  half,
+  placeholder
+});
+
+export const priceField = (label = 'Price ($)'): FieldDefinition => ({
+  kind: 'number',
+  name: 'price',
+  label,
+  required: true,
+  half: true,
+  placeholder: '0.00',
+  min: 0,
+  step: 0.01,
+  validate: (value) => Number(value) < 0 || Number.isNaN(Number(value)) ? 'Enter a valid price' : null
+});
+
+export const locationField = (): FieldDefinition => ({
+  kind: 'select',
+  name: 'location',
+  label: 'Pickup',
+  required: true,
+  half: true,
+  options: PICKUP_LOCATIONS,
+  defaultValue: PICKUP_LOCATIONS[0]
+});
+
+export const descriptionField = (placeholder: string): FieldDefinition => ({
+  kind: 'textarea',
+  name: 'description',
+  label: 'Description',
+  rows: 4,
+  placeholder
+});
+
+export const conditionField = (): FieldDefinition => ({
+  kind: 'chips',
+  name: 'condition',
+  label: 'Condition',
+  required: true,
+  options: CONDITIONS,
+  defaultValue: 'Like New'
+});
@@ -0,0 +1,41 @@
+import React from 'react';
+import { CategoryDefinition } from './types';
+import { conditionField, descriptionField, locationField, priceField, titleField } from './fields';
+
+const furniture: CategoryDefinition = {
+  category: 'Furniture',
+  emoji: '🪑',
+  tile: {
+    subtitle: 'Desks, Chairs, Beds & More',
+    icon: (
+      <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 10h16M10 14h4M4 18h16" /></svg>
+    )
+  },
+  form: {
+    title: 'List Furniture',
+    subtitle: 'Dorm & Apartment Essentials',
+    submitLabel: 'Post to Marketplace',
+    submittingLabel: 'Syncing Furniture...',
+    successMessage: 'Furniture listed successfully!'
+  },
+  theme: {
+    header: 'bg-emerald-600',
+    button: 'bg-emerald-600 shadow-emerald-100 hover:bg-emerald-700',
+    chip: 'bg-emerald-600 shadow-emerald-100',
+    ring: 'focus:ring-emerald-500',
+    addPhotoHover: 'hover:border-emerald-300',
+    addPhotoIcon: 'text-emerald-500',
+    tileIcon: 'bg-emerald-600',
+    chevron: 'text-emerald-600'
+  },
+  minPhotos: 1,
+  fields: [
+    titleField('Comfy Study Chair'),
+    priceField(),
+    locationField(),
+    descriptionField('Dimensions, material, assembly info...'),
+    conditionField()
+  ]
+};
+
+export default furniture;
@@ -0,0 +1,120 @@
+import React from 'react';
+import { CategoryDefinition } from './types';
+import { descriptionField, priceField, titleField } from './fields';
+import { formatLeaseDate } from '../../lib/housing';
+
+const ROOMMATE_LABELS: Record<string, string> = {
+  Any: 'Any Roommate',
+  Female: 'Female Roommates',
+  Male: 'Male Roommates'
+};
+
+const housing: CategoryDefinition = {
+  category: 'Housing',
+  emoji: '🏠',
+  tile: {
+    subtitle: 'Subleases, Rooms & Apartments',
+    icon: (
+      <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-6 0a1 1 0 001-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 001 1m-6 0h6" /></svg>
+    )
+  },
+  form: {
+    title: 'List Sublease',
+    subtitle: 'Housing',
+    submitLabel: 'Post Sublease',
+    submittingLabel: 'Syncing to Campus...',
+    successMessage: 'Sublease listed successfully!'
+  },
+  theme: {
+    header: 'bg-teal-600',
+    button: 'bg-teal-600 shadow-teal-100 hover:bg-teal-700',
+    chip: 'bg-teal-600 shadow-teal-100',
+    ring: 'focus:ring-teal-500',
+    addPhotoHover: 'hover:border-teal-300',
+    addPhotoIcon: 'text-teal-500',
+    tileIcon: 'bg-teal-600',
+    chevron: 'text-teal-600'
+  },
+  minPhotos: 2,
+  priceSuffix: '/mo',
+  locationLabel: 'Location',
+  contactLabel: 'Ask About This Place',
+  fields: [
+    { ...titleField('2BR at Northside, private bath'), label: 'Listing Title' },
+    priceField('Monthly Rent ($)'),
+    {
+      kind: 'text',
+      name: 'location',
+      label: 'Complex / Area',
+      required: true,
+      half: true,
+      placeholder: 'Northside'
+    },
+    { kind: 'date', name: 'lease_start', label: 'Lease Start', required: true, half: true },
+    {
+      kind: 'date',
+      name: 'lease_end',
+      label: 'Lease End',
+      required: true,
+      half: true,
+      validate: (value, values) => values.lease_start && value < values.lease_start ? 'Lease end must be after the lease start' : null
+    },
+    {
+      kind: 'number',
+      name: 'bedrooms',
+      label: 'Bedrooms',
+      half: true,
+      placeholder: '0 for studio',
+      min: 0,
+      step: 1,
+      validate: (value) => Number.isInteger(Number(value)) && Number(value) >= 0 ? null : 'Bedrooms should be a whole number'
+    },
+    {
+      kind: 'number',
+      name: 'bathrooms',
+      label: 'Bathrooms',
+      half: true,
+      placeholder: '1',
+      min: 0,
+      step: 0.5,
+      validate: (value) => Number(value) >= 0 && Number(value) * 2 === Math.round(Number(value) * 2) ? null : 'Bathrooms should be a whole or half number'
+    },
+    { kind: 'toggle', name: 'furnished', label: 'Furnished', hint: 'Bed, desk and common-area furniture stay' },
+    { kind: 'chips', name: 'roommate_gender', label: 'Roommate Preference', options: ['Any', 'Female', 'Male'], fill: true, defaultValue: 'Any' },
+    descriptionField('Utilities, parking, roommates, how to take over the lease...')
+  ],
+  renderDetails: (listing) => (
+    <div className="space-y-3 mb-6">
+      <div className="bg-teal-600 rounded-[1.5rem] p-5 flex items-center justify-between text-white">
+        <div>
+          <p className="text-[10px] font-black text-teal-200 uppercase tracking-widest mb-1">Move In</p>
+          <p className="font-bold">{formatLeaseDate(listing.lease_start)}</p>
+        </div>
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-teal-200" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 8l4 4m0 0l-4 4m4-4H3" /></svg>
+        <div className="text-right">
+          <p className="text-[10px] font-black text-teal-200 uppercase tracking-widest mb-1">Move Out</p>
+          <p className="font-bold">{formatLeaseDate(listing.lease_end)}</p>
+        </div>
+      </div>
+      <div className="grid grid-cols-3 gap-3">
+        <div className="bg-gray-50 p-4 rounded-2xl border border-gray-100 text-center">
+          <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-1">Beds</p>
+          <p className="font-bold text-gray-800">{listing.bedrooms == null ? '—' : listing.bedrooms === 0 ? 'Studio' : listing.bedrooms}</p>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-2xl border border-gray-100 text-center">
+          <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-1">Baths</p>
+          <p className="font-bold text-gray-800">{listing.bathrooms ?? '—'}</p>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-2xl border border-gray-100 text-center">
+          <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-1">Furnished</p>
+          <p className="font-bold text-gray-800">{listing.furnished ? 'Yes' : 'No'}</p>
+        </div>
+      </div>
+      <div className="bg-teal-50 px-4 py-2 rounded-xl inline-flex items-center">
+        <span className="text-[10px] font-black text-teal-700 uppercase tracking-widest">{ROOMMATE_LABELS[listing.roommate_gender ?? 'Any']}</span>
+      </div>
+    </div>
+  )
+};
+
+export default housing;
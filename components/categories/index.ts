@@ -0,0 +1,25 @@
+import { Category, Listing } from '../../types';
+import { CategoryDefinition } from './types';
+import clothing from './clothing';
+import furniture from './furniture';
+import electronics from './electronics';
+import textbooks from './textbooks';
+import housing from './housing';
+
+export type { CategoryDefinition, FieldDefinition, FormValues } from './types';
+export { initialValues, valuesFromListing, validateValues, toNewListing, toListingUpdate } from './values';
+
+// Display order for the sell tiles and marketplace tabs
+export const CATEGORIES: CategoryDefinition[] = [clothing, furniture, electronics, textbooks, housing];
+
+export const getCategoryDefinition = (category: Category): CategoryDefinition | undefined =>
+  CATEGORIES.find(def => def.category === category);
+
+export const formatListingPrice = (listing: Pick<Listing, 'price' | 'category'>) =>
+  `$${Number(listing.price).toFixed(2)}${getCategoryDefinition(listing.category)?.priceSuffix ?? ''}`;
+
+// The price before the latest change when that change was a drop, for "was $X"
+export const formatPreviousPrice = (listing: Pick<Listing, 'price' | 'previous_price' | 'category'>): string | null =>
+  listing.previous_price != null && Number(listing.previous_price) > Number(listing.price)
+    ? formatListingPrice({ ...listing, price: listing.previous_price })
+    : null;
@@ -0,0 +1,86 @@
+import React from 'react';
+import { CategoryDefinition } from './types';
+import { conditionField, descriptionField, locationField, priceField, titleField } from './fields';
+import { isValidIsbn, normalizeCourseCode, normalizeIsbn } from '../../lib/textbooks';
+
+const textbooks: CategoryDefinition = {
+  category: 'Textbooks',
+  emoji: '📚',
+  tile: {
+    subtitle: 'Course Books, Lab Manuals & More',
+    icon: (
+      <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" /></svg>
+    )
+  },
+  form: {
+    title: 'List Textbook',
+    subtitle: 'Course Materials',
+    submitLabel: 'Post Textbook',
+    submittingLabel: 'Syncing to Campus...',
+    successMessage: 'Textbook listed successfully!'
+  },
+  theme: {
+    header: 'bg-blue-600',
+    button: 'bg-blue-600 shadow-blue-100 hover:bg-blue-700',
+    chip: 'bg-blue-600 shadow-blue-100',
+    ring: 'focus:ring-blue-500',
+    addPhotoHover: 'hover:border-blue-300',
+    addPhotoIcon: 'text-blue-500',
+    tileIcon: 'bg-blue-600',
+    chevron: 'text-blue-600'
+  },
+  minPhotos: 1,
+  fields: [
+    titleField('Intro to Algorithms'),
+    {
+      kind: 'text',
+      name: 'isbn',
+      label: 'ISBN',
+      required: true,
+      half: true,
+      placeholder: '978-0262046305',
+      validate: (value) => isValidIsbn(value) ? null : 'That ISBN doesn\'t look right. Check the 10 or 13 digits on the back cover.',
+      normalize: (value) => normalizeIsbn(value)!
+    },
+    {
+      kind: 'text',
+      name: 'course_code',
+      label: 'Course',
+      half: true,
+      placeholder: 'CS 3345',
+      validate: (value) => normalizeCourseCode(value) ? null : 'Course code should look like CS 3345',
+      normalize: (value) => normalizeCourseCode(value)!
+    },
+    { kind: 'text', name: 'edition', label: 'Edition', placeholder: '4th' },
+    { kind: 'toggle', name: 'access_code_included', label: 'Access Code Included', hint: 'Unused online access code comes with the book' },
+    priceField(),
+    locationField(),
+    descriptionField('Highlighting, missing pages, which professor used it...'),
+    conditionField()
+  ],
+  renderDetails: (listing) => (
+    <div className="flex flex-wrap gap-2 mb-6">
+      {listing.course_code && (
+        <div className="bg-blue-600 px-4 py-2 rounded-xl flex items-center space-x-2">
+          <span className="text-[10px] font-black text-blue-200 uppercase tracking-widest">Course</span>
+          <span className="text-xs font-bold text-white uppercase">{listing.course_code}</span>
+        </div>
+      )}
+      <div className="bg-gray-900 px-4 py-2 rounded-xl flex items-center space-x-2">
+        <span className="text-[10px] font-black text-gray-500 uppercase tracking-widest">ISBN</span>
+        <span className="text-xs font-bold text-white font-mono">{listing.isbn || 'N/A'}</span>
+      </div>
+      {listing.edition && (
+        <div className="bg-gray-100 px-4 py-2 rounded-xl flex items-center space-x-2">
+          <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Edition</span>
+          <span className="text-xs font-bold text-gray-800">{listing.edition}</span>
+        </div>
+      )}
+      <div className={`px-4 py-2 rounded-xl flex items-center space-x-2 ${listing.access_code_included ? 'bg-emerald-50 text-emerald-700' : 'bg-gray-100 text-gray-500'}`}>
+        <span className="text-[10px] font-black uppercase tracking-widest">{listing.access_code_included ? 'Access Code Included' : 'No Access Code'}</span>
+      </div>
+    </div>
+  )
+};
+
+export default textbooks;
@@ -0,0 +1,68 @@
+import { ReactNode } from 'react';
+import { Category, Listing } from '../../types';
+
+export type FieldValue = string;
+export type FormValues = Record<string, FieldValue>;
+
+interface BaseField {
+  // Listing column the value is written to
+  name: string;
+  label: string;
+  required?: boolean;
+  // Renders in a two-column row with the adjacent half-width field
+  half?: boolean;
+  defaultValue?: FieldValue;
+  // Canonical form written to the listing; only called on values that passed `validate`
+  normalize?: (value: FieldValue) => string;
+  // Returns an error message, or null when the value is acceptable
+  validate?: (value: FieldValue, values: FormValues) => string | null;
+}
+
+export type FieldDefinition = BaseField & (
+  | { kind: 'text'; placeholder?: string }
+  | { kind: 'number'; placeholder?: string; min?: number; step?: number }
+  | { kind: 'date'; placeholder?: string }
+  | { kind: 'textarea'; placeholder?: string; rows?: number }
+  | { kind: 'select'; options: string[] }
+  // Pill buttons; `fill` stretches them to share one row
+  | { kind: 'chips'; options: string[]; fill?: boolean }
+  // Stored as a boolean column; the form value is 'true' or 'false'
+  | { kind: 'toggle'; hint?: string }
+);
+
+// Full Tailwind class strings so the CDN build picks them up
+export interface CategoryTheme {
+  header: string;
+  button: string;
+  chip: string;
+  ring: string;
+  addPhotoHover: string;
+  addPhotoIcon: string;
+  tileIcon: string;
+  chevron: string;
+}
+
+export interface CategoryDefinition {
+  category: Category;
+  emoji: string;
+  tile: {
+    subtitle: string;
+    icon: ReactNode;
+  };
+  form: {
+    title: string;
+    subtitle: string;
+    submitLabel: string;
+    submittingLabel: string;
+    successMessage: string;
+  };
+  theme: CategoryTheme;
+  minPhotos: number;
+  fields: FieldDefinition[];
+  // Appended to the price, e.g. '/mo' for rent
+  priceSuffix?: string;
+  locationLabel?: string;
+  contactLabel?: string;
+  // Category-specific block on the item detail page
+  renderDetails?: (listing: Listing) => ReactNode;
+}
@@ -0,0 +1,62 @@
+import { Listing, ListingUpdate, NewListing } from '../../types';
+import { CategoryDefinition, FieldDefinition, FormValues } from './types';
+
+export const initialValues = (definition: CategoryDefinition): FormValues =>
+  definition.fields.reduce((acc: FormValues, field) => {
+    acc[field.name] = field.defaultValue ?? (field.kind === 'toggle' ? 'false' : '');
+    return acc;
+  }, {});
+
+// The form as it would have been filled in to produce `listing`
+export const valuesFromListing = (definition: CategoryDefinition, listing: Listing): FormValues =>
+  definition.fields.reduce((acc: FormValues, field) => {
+    const value = (listing as unknown as Record<string, unknown>)[field.name];
+    if (field.kind === 'toggle') acc[field.name] = value ? 'true' : 'false';
+    else acc[field.name] = value == null ? '' : String(value);
+    return acc;
+  }, {});
+
+// First problem with the form, in the order the user sees the fields
+export const validateValues = (definition: CategoryDefinition, values: FormValues, photoCount: number): string | null => {
+  if (photoCount < definition.minPhotos) {
+    return definition.minPhotos === 1 ? 'Please upload at least one photo' : `Please upload at least ${definition.minPhotos} photos`;
+  }
+  if (definition.fields.some(field => field.required && !values[field.name]?.trim())) {
+    return 'Please fill in required fields';
+  }
+  for (const field of definition.fields) {
+    const value = values[field.name] ?? '';
+    if (value.trim() && (field.kind === 'select' || field.kind === 'chips') && !field.options.includes(value)) {
+      return `Please choose one of the ${field.label} options`;
+    }
+    const error = value.trim() ? field.validate?.(value, values) : null;
+    if (error) return error;
+  }
+  return null;
+};
+
+const parseField = (field: FieldDefinition, raw: string) => {
+  const value = raw.trim();
+  if (field.kind === 'toggle') return value === 'true';
+  if (!value) return undefined;
+  if (field.kind === 'number') return parseFloat(value);
+  return field.normalize ? field.normalize(value) : value;
+};
+
+// Each field writes to the listing column of the same name
+export const toNewListing = (definition: CategoryDefinition, values: FormValues, sellerId: string): NewListing => {
+  const listing: Record<string, unknown> = { category: definition.category, seller_id: sellerId };
+  definition.fields.forEach((field) => {
+    listing[field.name] = parseField(field, values[field.name] ?? '');
+  });
+  return listing as unknown as NewListing;
+};
+
+// Fields for an edit; cleared ones are sent as null so the column is emptied
+export const toListingUpdate = (definition: CategoryDefinition, values: FormValues): ListingUpdate => {
+  const changes: Record<string, unknown> = {};
+  definition.fields.forEach((field) => {
+    changes[field.name] = parseField(field, values[field.name] ?? '') ?? null;
+  });
+  return changes as unknown as ListingUpdate;
+};
@@ -2,15 +2,20 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import ConfigError from './components/ConfigError';
+import { configIssues } from './lib/config';
+import { registerServiceWorker } from './lib/pwa';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+registerServiceWorker();
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {configIssues.length > 0 ? <ConfigError issues={configIssues} /> : <App />}
   </React.StrictMode>
-);
\ No newline at end of file
+);
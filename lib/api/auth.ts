@@ -0,0 +1,19 @@
+import { backend } from '../backend';
+import { Session } from '../../types';
+
+export const getSession = (): Promise<Session | null> => backend.auth.getSession();
+
+// Returns an unsubscribe function
+export const onAuthStateChange = (callback: (session: Session | null) => void): (() => void) => {
+  return backend.auth.onAuthStateChange(callback);
+};
+
+export const signUp = (email: string, password: string, fullName: string): Promise<void> => {
+  return backend.auth.signUp(email, password, { full_name: fullName });
+};
+
+export const signIn = (email: string, password: string): Promise<void> => backend.auth.signIn(email, password);
+
+export const signOut = (): Promise<void> => backend.auth.signOut();
+
+export const updateUserMetadata = (metadata: Record<string, any>): Promise<void> => backend.auth.updateUser(metadata);
@@ -0,0 +1,59 @@
+import { backend, desc, eq, or } from '../backend';
+import { Conversation, ConversationThread } from '../../types';
+import { ApiError } from './errors';
+
+const CONVERSATIONS = 'conversations';
+const COLUMNS = 'id, listing_id, buyer_id, seller_id, created_at';
+
+const listConversationsFor = (userId: string): Promise<Conversation[]> => {
+  return backend.select<Conversation>(CONVERSATIONS, {
+    columns: COLUMNS,
+    filters: [or(eq('buyer_id', userId), eq('seller_id', userId))],
+    order: [desc('created_at')]
+  });
+};
+
+// Group by user ID to ensure true 1:1 DMs (one thread per person pair)
+export const listConversationThreads = async (userId: string): Promise<ConversationThread[]> => {
+  const conversations = await listConversationsFor(userId);
+  return conversations.reduce((acc: ConversationThread[], conv) => {
+    const otherId = conv.buyer_id === userId ? conv.seller_id : conv.buyer_id;
+    if (otherId === userId) return acc;
+    if (!acc.some(c => c.other_user_id === otherId)) {
+      acc.push({ ...conv, other_user_id: otherId });
+    }
+    return acc;
+  }, []);
+};
+
+export const getConversation = async (id: string): Promise<Conversation | null> => {
+  const [conversation] = await backend.select<Conversation>(CONVERSATIONS, {
+    columns: COLUMNS,
+    filters: [eq('id', id)],
+    limit: 1
+  });
+  return conversation ?? null;
+};
+
+// PROPER 1:1 DM SEARCH: reuses ANY conversation between these two users,
+// ignoring listing_id so only ONE chat box exists per person pair
+export const getOrCreateConversation = async (params: {
+  listingId: string;
+  buyerId: string;
+  sellerId: string;
+}): Promise<Conversation> => {
+  const { listingId, buyerId, sellerId } = params;
+  const existing = (await listConversationsFor(buyerId)).find(conv =>
+    (conv.buyer_id === buyerId && conv.seller_id === sellerId) ||
+    (conv.buyer_id === sellerId && conv.seller_id === buyerId)
+  );
+  if (existing) return existing;
+
+  const [created] = await backend.insert<Conversation>(CONVERSATIONS, {
+    listing_id: listingId,
+    buyer_id: buyerId,
+    seller_id: sellerId
+  });
+  if (!created) throw new ApiError('Conversation was not created');
+  return created;
+};
@@ -0,0 +1,20 @@
+import { backend, desc, eq } from '../backend';
+import { ListingDraft } from '../../types';
+
+const LISTING_DRAFTS = 'listing_drafts';
+
+export const listListingDrafts = (userId: string): Promise<ListingDraft[]> => {
+  return backend.select<ListingDraft>(LISTING_DRAFTS, {
+    filters: [eq('user_id', userId)],
+    order: [desc('updated_at')]
+  });
+};
+
+// Inserts or overwrites by id, which the client generates
+export const saveListingDraft = async (draft: ListingDraft): Promise<void> => {
+  await backend.upsert(LISTING_DRAFTS, [draft], 'id');
+};
+
+export const deleteListingDraft = async (id: string): Promise<void> => {
+  await backend.remove(LISTING_DRAFTS, [eq('id', id)]);
+};
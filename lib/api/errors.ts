@@ -0,0 +1,33 @@
+// Single error type surfaced by the data-access layer. `code` carries the
+// Postgres / PostgREST / storage code when the backend supplied one.
+export class ApiError extends Error {
+  readonly code?: string;
+
+  constructor(message: string, code?: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+  }
+
+  get isMissingTable(): boolean {
+    return this.code === '42P01';
+  }
+
+  // The request never reached the server (offline, DNS, dropped connection)
+  get isNetworkError(): boolean {
+    return !this.code && /failed to fetch|networkerror|load failed|network request failed/i.test(this.message);
+  }
+}
+
+export const toApiError = (err: any, fallback = 'Unknown error'): ApiError => {
+  if (err instanceof ApiError) return err;
+  if (typeof err === 'string') return new ApiError(err);
+  const message = err?.message || err?.error_description || fallback;
+  return new ApiError(message, err?.code != null ? String(err.code) : undefined);
+};
+
+// Unwraps a `{ data, error }` response, throwing an ApiError on failure
+export const unwrap = <T>(response: { data: T | null; error: any }): T => {
+  if (response.error) throw toApiError(response.error);
+  return response.data as T;
+};
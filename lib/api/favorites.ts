@@ -0,0 +1,74 @@
+import { backend, desc, eq } from '../backend';
+import { Favorite, Listing } from '../../types';
+import { listListingsByIds, LISTING_PAGE_SIZE } from './listings';
+import { ApiError } from './errors';
+import { sendOrQueue } from './offlineQueue';
+import { afterCursor, toPage, Cursor, Page } from './pagination';
+
+const FAVORITES = 'favorites';
+// Most recently saved first
+const FAVORITE_ORDER = [desc('created_at'), desc('id')];
+
+export const listFavoriteIds = async (userId: string): Promise<string[]> => {
+  const rows = await backend.select<Pick<Favorite, 'listing_id'>>(FAVORITES, {
+    columns: 'listing_id',
+    filters: [eq('user_id', userId)]
+  });
+  return rows.map(f => f.listing_id);
+};
+
+export const listFavoriteListingsPage = async (
+  userId: string,
+  cursor: Cursor | null = null,
+  limit = LISTING_PAGE_SIZE
+): Promise<Page<Listing>> => {
+  const rows = await backend.select<Pick<Favorite, 'id' | 'created_at' | 'listing_id'>>(FAVORITES, {
+    columns: 'id,created_at,listing_id',
+    filters: [eq('user_id', userId), ...(cursor ? [afterCursor(FAVORITE_ORDER, cursor)] : [])],
+    order: FAVORITE_ORDER,
+    limit: limit + 1
+  });
+  const page = toPage(rows, FAVORITE_ORDER, limit);
+  const listings = await listListingsByIds(page.items.map(f => f.listing_id));
+  return {
+    items: page.items.map(f => listings.find(l => l.id === f.listing_id)).filter((l): l is Listing => !!l),
+    nextCursor: page.nextCursor
+  };
+};
+
+export const countFavorites = (userId: string): Promise<number> => {
+  return backend.count(FAVORITES, [eq('user_id', userId)]);
+};
+
+export const isFavorite = async (userId: string, listingId: string): Promise<boolean> => {
+  const rows = await backend.select<Pick<Favorite, 'id'>>(FAVORITES, {
+    columns: 'id',
+    filters: [eq('user_id', userId), eq('listing_id', listingId)],
+    limit: 1
+  });
+  return rows.length > 0;
+};
+
+// Idempotent, so a replayed offline toggle can't fail on the unique constraint
+export const setFavorite = async (userId: string, listingId: string, favorited: boolean): Promise<void> => {
+  if (!favorited) {
+    await backend.remove(FAVORITES, [eq('user_id', userId), eq('listing_id', listingId)]);
+    return;
+  }
+  try {
+    await backend.insert(FAVORITES, { user_id: userId, listing_id: listingId });
+  } catch (err) {
+    if (!(err instanceof ApiError && err.code === '23505')) throw err;
+  }
+};
+
+// Flips the favorite state and returns the new one. Offline, the change is
+// queued and replayed on reconnect.
+export const toggleFavorite = async (userId: string, listingId: string, isFavorited: boolean): Promise<boolean> => {
+  const favorited = !isFavorited;
+  await sendOrQueue(
+    { kind: 'favorite', userId, listingId, favorited },
+    () => setFavorite(userId, listingId, favorited)
+  );
+  return favorited;
+};
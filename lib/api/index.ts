@@ -0,0 +1,17 @@
+export { ApiError } from './errors';
+export * from './auth';
+export * from './listings';
+export * from './favorites';
+export * from './views';
+export * from './profiles';
+export * from './conversations';
+export * from './messages';
+export * from './savedSearches';
+export * from './drafts';
+export * from './notifications';
+export * from './storage';
+export * from './realtime';
+export * from './schema';
+export * from './offlineQueue';
+export * from './sync';
+export * from './pagination';
@@ -0,0 +1,271 @@
+import { asc, backend, desc, eq, gte, ilike, inList, lte, neq, or, Filter, Order } from '../backend';
+import { Category, EditedListingPhoto, Listing, ListingPhoto, ListingPriceChange, ListingStatus, ListingUpdate, NewListing, NewListingPhoto } from '../../types';
+import { ApiError } from './errors';
+import { normalizeCourseCode, normalizeIsbn } from '../textbooks';
+import { EMPTY_FILTERS, FacetCounts, FeedFilters, FeedSort, matchesFeedFilters, postedWithinCutoff, toFilterArgs } from '../feedFilters';
+import { coversLeaseWindow, LeaseWindow } from '../housing';
+import { afterCursor, toPage, Cursor, Page } from './pagination';
+import { rankSimilarListings } from '../similarItems';
+import { isExpired, listingExpiry } from '../expiry';
+import { removeListingPhotoFiles, uploadListingPhotos } from './storage';
+
+const LISTINGS = 'listings';
+const LISTING_PHOTOS = 'listing_photos';
+const LISTING_PRICE_CHANGES = 'listing_price_changes';
+
+type ListingRow = Omit<Listing, 'photos'>;
+
+const listPhotos = (listingIds: string[]): Promise<ListingPhoto[]> => {
+  if (listingIds.length === 0) return Promise.resolve([]);
+  return backend.select<ListingPhoto>(LISTING_PHOTOS, {
+    filters: [inList('listing_id', listingIds)],
+    order: [asc('position')]
+  });
+};
+
+// Joins each row with its ordered photos
+const withPhotos = async (rows: ListingRow[]): Promise<Listing[]> => {
+  const photos = await listPhotos(rows.map(row => row.id));
+  return rows.map(row => ({ ...row, photos: photos.filter(p => p.listing_id === row.id) }));
+};
+
+// Ten rows of the two-column grid, about three screens on a phone
+export const LISTING_PAGE_SIZE = 20;
+
+export interface ListingQuery {
+  category?: Category;
+  sellerId?: string;
+  // true for sold listings only, false to leave them out; unset for both
+  sold?: boolean;
+  // Same for listings past their expires_at, by the server's clock
+  expired?: boolean;
+  filters?: FeedFilters;
+  // Housing only: the lease must cover these dates
+  leaseWindow?: LeaseWindow;
+}
+
+// Each sort ends on created_at / id so pages can resume from a cursor
+const SORT_ORDERS: Record<FeedSort, Order[]> = {
+  newest: [desc('created_at'), desc('id')],
+  price_asc: [asc('price'), desc('created_at'), desc('id')],
+  price_desc: [desc('price'), desc('created_at'), desc('id')],
+  most_favorited: [desc('favorite_count'), desc('created_at'), desc('id')]
+};
+
+// Mirrors `listing_matches_filters` in 0012_feed_pagination.sql
+const queryFilters = ({ category, sellerId, sold, expired, filters, leaseWindow }: ListingQuery): Filter[] => {
+  const result: Filter[] = [];
+  if (category) result.push(eq('category', category));
+  if (sellerId) result.push(eq('seller_id', sellerId));
+  if (sold !== undefined) result.push(sold ? eq('status', 'sold') : neq('status', 'sold'));
+  if (expired !== undefined) result.push(eq('is_expired', expired));
+  if (filters) {
+    if (filters.minPrice != null) result.push(gte('price', filters.minPrice));
+    if (filters.maxPrice != null) result.push(lte('price', filters.maxPrice));
+    if (filters.conditions.length > 0) result.push(inList('condition', filters.conditions));
+    // Sizes are free text; an ilike without wildcards compares case-insensitively
+    if (filters.sizes.length > 0) result.push(or(...filters.sizes.map(size => ilike('size', size))));
+    if (filters.genders.length > 0) result.push(inList('gender', filters.genders));
+    if (filters.locations.length > 0) result.push(inList('location', filters.locations));
+    if (filters.postedWithin) {
+      result.push(gte('created_at', new Date(postedWithinCutoff(filters.postedWithin, Date.now())).toISOString()));
+    }
+  }
+  if (leaseWindow?.moveIn) result.push(lte('lease_start', leaseWindow.moveIn), gte('lease_end', leaseWindow.moveIn));
+  if (leaseWindow?.moveOut) result.push(gte('lease_end', leaseWindow.moveOut));
+  return result;
+};
+
+// The same rules applied to a row already in hand, e.g. from a realtime payload
+export const matchesListingQuery = (listing: Listing, { category, sellerId, sold, expired, filters, leaseWindow }: ListingQuery): boolean =>
+  (!category || listing.category === category)
+  && (!sellerId || listing.seller_id === sellerId)
+  && (sold === undefined || (listing.status === 'sold') === sold)
+  && (expired === undefined || isExpired(listing) === expired)
+  && (!filters || matchesFeedFilters(listing, filters))
+  && (!leaseWindow || coversLeaseWindow(listing, leaseWindow));
+
+// One page of listings, newest first unless the filters pick another sort
+export const listListingsPage = async (
+  query: ListingQuery,
+  cursor: Cursor | null = null,
+  limit = LISTING_PAGE_SIZE
+): Promise<Page<Listing>> => {
+  const order = SORT_ORDERS[query.filters?.sort ?? 'newest'];
+  const rows = await backend.select<ListingRow>(LISTINGS, {
+    filters: [...queryFilters(query), ...(cursor ? [afterCursor(order, cursor)] : [])],
+    order,
+    limit: limit + 1
+  });
+  const page = toPage(rows, order, limit);
+  return { ...page, items: await withPhotos(page.items) };
+};
+
+export const countListings = (query: ListingQuery): Promise<number> => {
+  return backend.count(LISTINGS, queryFilters(query));
+};
+
+// Live counts for the filter sheet, computed over every matching listing
+// rather than the pages loaded so far
+export const getListingFacetCounts = async ({ category, filters, leaseWindow }: ListingQuery): Promise<FacetCounts> => {
+  return backend.rpc<FacetCounts>('listing_facet_counts', {
+    filters: toFilterArgs(category ?? null, filters ?? EMPTY_FILTERS, leaseWindow)
+  });
+};
+
+export const listListingsByIds = async (ids: string[]): Promise<Listing[]> => {
+  if (ids.length === 0) return [];
+  return withPhotos(await backend.select<ListingRow>(LISTINGS, { filters: [inList('id', ids)] }));
+};
+
+// Ranked full-text search across every category (the `search_listings`
+// function). ISBNs and course codes are sent in their canonical form so any
+// written form of them matches.
+export const searchListings = async (query: string, limit = 60): Promise<Listing[]> => {
+  const canonical = normalizeIsbn(query) ?? normalizeCourseCode(query) ?? query;
+  const rows = await backend.rpc<ListingRow[]>('search_listings', { query: canonical, result_limit: limit });
+  return withPhotos(rows ?? []);
+};
+
+// "Similar items" for a listing. Candidates are the newest in its category
+// plus a search on its title, so close matches elsewhere still surface.
+export const listSimilarListings = async (listing: Listing, viewerId?: string, limit = 10): Promise<Listing[]> => {
+  const [sameCategory, related] = await Promise.all([
+    backend.select<ListingRow>(LISTINGS, {
+      filters: [
+        eq('category', listing.category),
+        neq('id', listing.id),
+        neq('status', 'sold'),
+        eq('is_expired', false),
+        ...(viewerId ? [neq('seller_id', viewerId)] : [])
+      ],
+      order: [desc('created_at'), desc('id')],
+      limit: 100
+    }),
+    backend.rpc<ListingRow[]>('search_listings', { query: listing.title, result_limit: 30 })
+  ]);
+  const candidates = [...sameCategory, ...(related ?? [])].map(row => ({ ...row, photos: [] }));
+  const ranked = rankSimilarListings(listing, candidates, { viewerId, limit });
+  const withPhotosById = new Map((await withPhotos(ranked)).map(l => [l.id, l]));
+  return ranked.map(l => withPhotosById.get(l.id)!);
+};
+
+// Most attention lately (views, favorites and chats, decayed by age); see
+// lib/trending.ts
+export const listTrendingListings = async (category?: Category, limit = 10): Promise<Listing[]> => {
+  const rows = await backend.rpc<ListingRow[]>('trending_listings', { category: category ?? null, result_limit: limit });
+  return withPhotos(rows ?? []);
+};
+
+export const getListing = async (id: string): Promise<Listing | null> => {
+  const rows = await backend.select<ListingRow>(LISTINGS, { filters: [eq('id', id)], limit: 1 });
+  const [listing] = await withPhotos(rows);
+  return listing ?? null;
+};
+
+// Every price change, oldest first. Written by a trigger whenever an edit
+// changes the price.
+export const listPriceHistory = (listingId: string): Promise<ListingPriceChange[]> => {
+  return backend.select<ListingPriceChange>(LISTING_PRICE_CHANGES, {
+    filters: [eq('listing_id', listingId)],
+    order: [asc('created_at')]
+  });
+};
+
+// Photos are stored in the order given. If they can't be saved the listing
+// row is removed again, so a listing never appears without its photos.
+// The database sets expires_at itself; it is sent for the memory backend.
+export const createListing = async (listing: NewListing, photos: NewListingPhoto[]): Promise<Listing> => {
+  const [created] = await backend.insert<ListingRow>(LISTINGS, { status: 'available', expires_at: listingExpiry(listing.category), ...listing });
+  if (!created) throw new ApiError('Listing was not created');
+  try {
+    const createdPhotos = photos.length > 0
+      ? await backend.insert<ListingPhoto>(LISTING_PHOTOS, photos.map((photo, position) => ({
+          ...photo,
+          listing_id: created.id,
+          position
+        })))
+      : [];
+    return { ...created, photos: createdPhotos };
+  } catch (err) {
+    await backend.remove(LISTINGS, [eq('id', created.id)]).catch(() => {});
+    throw err;
+  }
+};
+
+// Uploads the photos and creates the listing as one step: whatever fails,
+// nothing is left behind in storage or the database
+export const publishListing = async (listing: NewListing, files: File[]): Promise<Listing> => {
+  const uploaded = await uploadListingPhotos(listing.seller_id, files);
+  try {
+    return await createListing(listing, uploaded);
+  } catch (err) {
+    await removeListingPhotoFiles(uploaded);
+    throw err;
+  }
+};
+
+// Saves an edit: the listing's fields, then its photos in the order given.
+// Photos missing from `photos` are removed, files included, and ones without
+// an id are added. The database part is one transaction (`update_listing`);
+// files of removed photos are only deleted once it has committed.
+export const updateListing = async (id: string, changes: ListingUpdate, photos: EditedListingPhoto[]): Promise<Listing> => {
+  const { listing, photos: saved, removed } = await backend.rpc<{ listing: ListingRow; photos: ListingPhoto[]; removed: ListingPhoto[] }>(
+    'update_listing',
+    { listing_id: id, changes, photos: photos.map(photo => 'id' in photo ? { id: photo.id } : photo) }
+  );
+  await removeListingPhotoFiles(removed);
+  return { ...listing, photos: saved };
+};
+
+// The edit counterpart of publishListing: new files are uploaded first and
+// removed again if the update fails
+export const saveListingEdit = async (
+  listing: Pick<Listing, 'id' | 'seller_id'>,
+  changes: ListingUpdate,
+  photos: (ListingPhoto | File)[]
+): Promise<Listing> => {
+  const files = photos.filter((photo): photo is File => photo instanceof File);
+  const uploaded = await uploadListingPhotos(listing.seller_id, files);
+  try {
+    return await updateListing(listing.id, changes, photos.map(photo => photo instanceof File ? uploaded[files.indexOf(photo)] : photo));
+  } catch (err) {
+    await removeListingPhotoFiles(uploaded);
+    throw err;
+  }
+};
+
+// Moves a listing through available → pending → sold. The buyer is kept for
+// pending and sold, and cleared when it goes back to available.
+export const setListingStatus = async (id: string, status: ListingStatus, buyerId: string | null = null): Promise<Listing> => {
+  const [updated] = await backend.update<ListingRow>(LISTINGS, {
+    status,
+    buyer_id: status === 'available' ? null : buyerId,
+    sold_at: status === 'sold' ? new Date().toISOString() : null
+  }, [eq('id', id)]);
+  if (!updated) throw new ApiError('Listing was not updated');
+  const [listing] = await withPhotos([updated]);
+  return listing;
+};
+
+// Another full lifetime from now, for an expired or expiring listing
+export const renewListing = async (id: string): Promise<Listing> => {
+  const renewed = await backend.rpc<ListingRow>('renew_listing', { listing_id: id });
+  const [listing] = await withPhotos([renewed]);
+  return listing;
+};
+
+// Moves the listing back to the top of the newest-first feed. The database
+// allows one bump per BUMP_INTERVAL_HOURS (lib/expiry.ts).
+export const bumpListing = async (id: string): Promise<Listing> => {
+  const bumped = await backend.rpc<ListingRow>('bump_listing', { listing_id: id });
+  const [listing] = await withPhotos([bumped]);
+  return listing;
+};
+
+// Photo rows go with the listing (on delete cascade); their files are removed after
+export const deleteListing = async (id: string): Promise<void> => {
+  const photos = await listPhotos([id]);
+  await backend.remove(LISTINGS, [eq('id', id)]);
+  await removeListingPhotoFiles(photos);
+};
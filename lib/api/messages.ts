@@ -0,0 +1,29 @@
+import { asc, backend, eq } from '../backend';
+import { Message } from '../../types';
+import { sendOrQueue } from './offlineQueue';
+
+const MESSAGES = 'messages';
+
+export const listMessages = (conversationId: string): Promise<Message[]> => {
+  return backend.select<Message>(MESSAGES, {
+    filters: [eq('conversation_id', conversationId)],
+    order: [asc('created_at')]
+  });
+};
+
+// Inserts immediately; use `sendMessage` from the UI
+export const deliverMessage = async (conversationId: string, senderId: string, text: string): Promise<void> => {
+  await backend.insert(MESSAGES, {
+    conversation_id: conversationId,
+    sender_id: senderId,
+    text
+  });
+};
+
+// Offline, the message is queued and delivered on reconnect
+export const sendMessage = (conversationId: string, senderId: string, text: string): Promise<'sent' | 'queued'> => {
+  return sendOrQueue(
+    { kind: 'message', userId: senderId, conversationId, text },
+    () => deliverMessage(conversationId, senderId, text)
+  );
+};
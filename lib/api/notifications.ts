@@ -0,0 +1,30 @@
+import { backend, desc, eq, isNull, Filter } from '../backend';
+import { AppNotification, NotificationKind } from '../../types';
+
+const NOTIFICATIONS = 'notifications';
+
+// The user's notifications, or only those of one kind
+const userFilters = (userId: string, kind?: NotificationKind): Filter[] =>
+  [eq('user_id', userId), ...(kind ? [eq('kind', kind)] : [])];
+
+export const listNotifications = (userId: string, limit = 50, kind?: NotificationKind): Promise<AppNotification[]> => {
+  return backend.select<AppNotification>(NOTIFICATIONS, {
+    filters: userFilters(userId, kind),
+    order: [desc('created_at')],
+    limit
+  });
+};
+
+export const countUnreadNotifications = (userId: string, kind?: NotificationKind): Promise<number> => {
+  return backend.count(NOTIFICATIONS, [...userFilters(userId, kind), isNull('read_at')]);
+};
+
+export const markNotificationsRead = async (userId: string, kind?: NotificationKind): Promise<void> => {
+  await backend.update(NOTIFICATIONS, { read_at: new Date().toISOString() }, [...userFilters(userId, kind), isNull('read_at')]);
+};
+
+// Sends the signed-in user's reminders for listings about to expire, for
+// databases without the hourly pg_cron job (0018_listing_expiry.sql)
+export const sendExpiryReminders = async (): Promise<number> => {
+  return (await backend.rpc<number>('remind_expiring_listings')) ?? 0;
+};
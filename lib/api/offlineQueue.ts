@@ -0,0 +1,77 @@
+import { toApiError } from './errors';
+
+// Writes made without a connection, persisted so they survive a reload and
+// replayed in order by `flushOfflineQueue` once the browser is back online.
+export type QueuedAction =
+  | { id: string; kind: 'favorite'; userId: string; queuedAt: string; listingId: string; favorited: boolean }
+  | { id: string; kind: 'message'; userId: string; queuedAt: string; conversationId: string; text: string };
+
+type DistributiveOmit<T, K extends keyof any> = T extends any ? Omit<T, K> : never;
+export type NewQueuedAction = DistributiveOmit<QueuedAction, 'id' | 'queuedAt'>;
+
+const STORAGE_KEY = 'hucksta:offline-queue';
+
+const listeners = new Set<() => void>();
+
+const load = (): QueuedAction[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch (e) {
+    return [];
+  }
+};
+
+// Same array until the queue changes, so it can back useSyncExternalStore
+let snapshot: QueuedAction[] = load();
+
+const save = (actions: QueuedAction[]) => {
+  snapshot = actions;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(actions));
+  } catch (err) {
+    console.error('Could not persist offline queue:', err);
+  }
+  listeners.forEach(listener => listener());
+};
+
+export const getQueuedActions = (): QueuedAction[] => snapshot;
+
+export const subscribeToQueue = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const queueAction = (action: NewQueuedAction) => {
+  const queued = {
+    ...action,
+    id: `${Date.now().toString(16)}-${Math.random().toString(16).slice(2)}`,
+    queuedAt: new Date().toISOString()
+  } as QueuedAction;
+  // Only the latest favorite state for a listing matters
+  const rest = action.kind === 'favorite'
+    ? snapshot.filter(a => !(a.kind === 'favorite' && a.userId === action.userId && a.listingId === action.listingId))
+    : snapshot;
+  save([...rest, queued]);
+};
+
+export const removeQueuedAction = (id: string) => {
+  save(snapshot.filter(a => a.id !== id));
+};
+
+export const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+// Runs `send` now, or queues `action` when there is no connection
+export const sendOrQueue = async (action: NewQueuedAction, send: () => Promise<void>): Promise<'sent' | 'queued'> => {
+  if (isOffline()) {
+    queueAction(action);
+    return 'queued';
+  }
+  try {
+    await send();
+    return 'sent';
+  } catch (err) {
+    if (!toApiError(err).isNetworkError) throw err;
+    queueAction(action);
+    return 'queued';
+  }
+};
@@ -0,0 +1,31 @@
+import { and, eq, gt, lt, or, Filter, Order } from '../backend';
+
+// Where the next page starts: the last row's value for each sort column
+export type Cursor = Record<string, any>;
+
+export interface Page<T> {
+  items: T[];
+  // null once the last page has been read
+  nextCursor: Cursor | null;
+}
+
+// Rows strictly after `cursor` in `order` (keyset pagination). The order must
+// end on a unique column such as `id`, or rows sharing a sort value could be
+// skipped or repeated between pages.
+export const afterCursor = (order: Order[], cursor: Cursor): Filter =>
+  or(...order.map(({ column, ascending = true }, index) => and(
+    ...order.slice(0, index).map(previous => eq(previous.column, cursor[previous.column])),
+    ascending ? gt(column, cursor[column]) : lt(column, cursor[column])
+  )));
+
+// Queries fetch one row past `limit` so a full last page isn't mistaken for more
+export const toPage = <T extends Record<string, any>>(rows: T[], order: Order[], limit: number): Page<T> => {
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+  return {
+    items,
+    nextCursor: rows.length > limit && last
+      ? Object.fromEntries(order.map(({ column }) => [column, last[column]]))
+      : null
+  };
+};
@@ -0,0 +1,49 @@
+import { backend, eq, inList, neq } from '../backend';
+import { AuthUser, Profile } from '../../types';
+
+const PROFILES = 'profiles';
+
+export const defaultAvatarUrl = (seed: string) => `https://api.dicebear.com/7.x/avataaars/svg?seed=${seed}`;
+
+export const getProfile = async (userId: string): Promise<Profile | null> => {
+  const [profile] = await backend.select<Profile>(PROFILES, { filters: [eq('id', userId)], limit: 1 });
+  return profile ?? null;
+};
+
+export const listProfiles = async (userIds: string[]): Promise<Profile[]> => {
+  if (userIds.length === 0) return [];
+  return backend.select<Profile>(PROFILES, { filters: [inList('id', userIds)] });
+};
+
+export const getProfileByUsername = async (username: string): Promise<Profile | null> => {
+  const [profile] = await backend.select<Profile>(PROFILES, { filters: [eq('username', username)], limit: 1 });
+  return profile ?? null;
+};
+
+export const upsertProfile = async (profile: Profile): Promise<void> => {
+  await backend.upsert(PROFILES, { ...profile, updated_at: new Date().toISOString() }, 'id');
+};
+
+export const isUsernameTaken = async (username: string, excludeUserId: string): Promise<boolean> => {
+  const rows = await backend.select<Pick<Profile, 'id'>>(PROFILES, {
+    columns: 'id',
+    filters: [eq('username', username), neq('id', excludeUserId)],
+    limit: 1
+  });
+  return rows.length > 0;
+};
+
+// "Self-Healing" Profile Logic: Ensures every auth user has a public profile
+export const ensureProfile = async (user: AuthUser): Promise<Profile> => {
+  const existing = await getProfile(user.id);
+  if (existing) return existing;
+
+  const profile: Profile = {
+    id: user.id,
+    full_name: user.user_metadata?.full_name || user.email?.split('@')[0] || 'New Comet',
+    username: user.user_metadata?.username || user.email?.split('@')[0]?.toLowerCase().replace(/[^a-z0-9]/g, '') || `user${user.id.slice(0, 4)}`,
+    avatar_url: user.user_metadata?.avatar_url || defaultAvatarUrl(user.id)
+  };
+  await upsertProfile(profile);
+  return profile;
+};
@@ -0,0 +1,9 @@
+import { backend, ChangeListener } from '../backend';
+
+export type { ChangeEvent, ChangeListener, ChangePayload } from '../backend';
+
+// Subscribes a named channel to `postgres_changes` on the public schema.
+// Returns an unsubscribe function suitable for a useEffect cleanup.
+export const subscribeToChanges = (channelName: string, listeners: ChangeListener[]): (() => void) => {
+  return backend.subscribe(channelName, listeners);
+};
@@ -0,0 +1,32 @@
+import { backend, desc, eq } from '../backend';
+import { NewSavedSearch, SavedSearch } from '../../types';
+import { ApiError } from './errors';
+
+const SAVED_SEARCHES = 'saved_searches';
+
+export const listSavedSearches = (userId: string): Promise<SavedSearch[]> => {
+  return backend.select<SavedSearch>(SAVED_SEARCHES, {
+    filters: [eq('user_id', userId)],
+    order: [desc('created_at')]
+  });
+};
+
+export const getSavedSearch = async (id: string): Promise<SavedSearch | null> => {
+  const [search] = await backend.select<SavedSearch>(SAVED_SEARCHES, { filters: [eq('id', id)], limit: 1 });
+  return search ?? null;
+};
+
+export const createSavedSearch = async (search: NewSavedSearch): Promise<SavedSearch> => {
+  const [created] = await backend.insert<SavedSearch>(SAVED_SEARCHES, search);
+  if (!created) throw new ApiError('Saved search was not created');
+  return created;
+};
+
+export const updateSavedSearch = async (id: string, patch: Partial<Pick<SavedSearch, 'name' | 'paused'>>): Promise<void> => {
+  await backend.update(SAVED_SEARCHES, patch, [eq('id', id)]);
+};
+
+// Its alerts go with it
+export const deleteSavedSearch = async (id: string): Promise<void> => {
+  await backend.remove(SAVED_SEARCHES, [eq('id', id)]);
+};
@@ -0,0 +1,20 @@
+import { backend, desc } from '../backend';
+import { SCHEMA_VERSION } from '../schemaVersion';
+import { ApiError } from './errors';
+
+export { SCHEMA_VERSION };
+
+// Latest applied migration, or 0 when the runner has never been run
+export const getSchemaVersion = async (): Promise<number> => {
+  try {
+    const [row] = await backend.select<{ version: number }>('schema_migrations', {
+      columns: 'version',
+      order: [desc('version')],
+      limit: 1
+    });
+    return row?.version ?? 0;
+  } catch (err) {
+    if (err instanceof ApiError && err.isMissingTable) return 0;
+    throw err;
+  }
+};
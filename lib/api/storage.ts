@@ -0,0 +1,60 @@
+import { backend } from '../backend';
+import { config } from '../config';
+import { readImageSize } from '../images';
+import { ListingPhoto, NewListingPhoto } from '../../types';
+
+// Logical bucket; the real name comes from config
+export type Bucket = keyof typeof config.buckets;
+
+const fileExtension = (file: File) => file.name.split('.').pop();
+
+// Uploads a file and returns its public URL
+export const uploadPublicFile = (
+  bucket: Bucket,
+  path: string,
+  file: File,
+  options: { upsert?: boolean } = {}
+): Promise<string> => {
+  return backend.storage.upload(config.buckets[bucket], path, file, options);
+};
+
+export const removePublicFiles = (bucket: Bucket, paths: string[]): Promise<void> => {
+  return backend.storage.remove(config.buckets[bucket], paths);
+};
+
+export const uploadListingPhoto = async (userId: string, file: File): Promise<NewListingPhoto> => {
+  const fileName = `${userId}-${Math.random().toString(36).substring(2)}-${Date.now()}.${fileExtension(file)}`;
+  const [url, size] = await Promise.all([uploadPublicFile('listings', fileName, file), readImageSize(file)]);
+  return { url, storage_path: fileName, ...size };
+};
+
+// Uploads in order, all or nothing: if one upload fails, the files already
+// stored are removed before the error is rethrown
+export const uploadListingPhotos = async (userId: string, files: File[]): Promise<NewListingPhoto[]> => {
+  const uploaded: NewListingPhoto[] = [];
+  try {
+    for (const file of files) {
+      uploaded.push(await uploadListingPhoto(userId, file));
+    }
+    return uploaded;
+  } catch (err) {
+    await removeListingPhotoFiles(uploaded);
+    throw err;
+  }
+};
+
+// Best effort: a file left behind is picked up by `npm run purge-orphans`
+export const removeListingPhotoFiles = async (photos: Pick<ListingPhoto, 'storage_path'>[]): Promise<void> => {
+  const paths = photos.map(photo => photo.storage_path).filter((path): path is string => !!path);
+  if (paths.length === 0) return;
+  try {
+    await removePublicFiles('listings', paths);
+  } catch (err: any) {
+    console.error('Error removing listing photos:', err.message || err);
+  }
+};
+
+export const uploadAvatar = (userId: string, file: File): Promise<string> => {
+  const fileName = `${userId}-${Date.now()}.${fileExtension(file)}`;
+  return uploadPublicFile('avatars', fileName, file, { upsert: true });
+};
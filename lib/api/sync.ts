@@ -0,0 +1,37 @@
+import { toApiError } from './errors';
+import { getQueuedActions, isOffline, QueuedAction, removeQueuedAction } from './offlineQueue';
+import { setFavorite } from './favorites';
+import { deliverMessage } from './messages';
+
+const replay = (action: QueuedAction): Promise<void> => {
+  switch (action.kind) {
+    case 'favorite':
+      return setFavorite(action.userId, action.listingId, action.favorited);
+    case 'message':
+      return deliverMessage(action.conversationId, action.userId, action.text);
+  }
+};
+
+let flushing: Promise<void> | null = null;
+
+// Replays the user's queued actions in order. Stops at the first network
+// failure so later messages don't overtake earlier ones; actions the server
+// rejects outright are dropped.
+export const flushOfflineQueue = (userId: string): Promise<void> => {
+  if (!flushing) {
+    flushing = (async () => {
+      for (const action of getQueuedActions().filter(a => a.userId === userId)) {
+        if (isOffline()) return;
+        try {
+          await replay(action);
+        } catch (err) {
+          const error = toApiError(err);
+          if (error.isNetworkError) return;
+          console.error(`Dropping queued ${action.kind}:`, error.message);
+        }
+        removeQueuedAction(action.id);
+      }
+    })().finally(() => { flushing = null; });
+  }
+  return flushing;
+};
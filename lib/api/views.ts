@@ -0,0 +1,10 @@
+import { backend } from '../backend';
+
+const LISTING_VIEWS = 'listing_views';
+
+// Counts the first time each user opens a listing. Repeat visits hit the
+// (listing_id, viewer_id) key and are ignored, so the view_count trigger,
+// which fires on insert, never sees them.
+export const recordListingView = async (listingId: string, viewerId: string): Promise<void> => {
+  await backend.upsert(LISTING_VIEWS, { listing_id: listingId, viewer_id: viewerId }, 'listing_id,viewer_id', { ignoreDuplicates: true });
+};
@@ -0,0 +1,15 @@
+import { config } from '../config';
+import { createMemoryBackend } from './memory';
+import { createSupabaseBackend } from './supabase';
+import { Backend } from './types';
+
+export * from './types';
+export * from './query';
+export { createMemoryBackend } from './memory';
+
+export let backend: Backend = config.backend === 'memory' ? createMemoryBackend() : createSupabaseBackend();
+
+// Swaps the active backend, e.g. for a test harness driving a seeded memory backend
+export const setBackend = (next: Backend) => {
+  backend = next;
+};
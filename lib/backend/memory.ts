@@ -0,0 +1,264 @@
+import { AuthUser, Session } from '../../types';
+import { ApiError } from '../api/errors';
+import { SCHEMA_VERSION } from '../schemaVersion';
+import { Backend, ChangeEvent, ChangeListener, Filter, Query } from './types';
+import { MEMORY_COMPUTED_FIELDS, MEMORY_FOREIGN_KEYS, MEMORY_FUNCTIONS, MEMORY_TRIGGERS } from './memoryFunctions';
+import { inList } from './query';
+
+type Row = Record<string, any>;
+
+interface MemoryUser extends AuthUser {
+  password: string;
+}
+
+const newId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(16)}-${Math.random().toString(16).slice(2)}`;
+
+const compare = (a: any, b: any): number => {
+  if (a === b) return 0;
+  if (a == null) return -1;
+  if (b == null) return 1;
+  return a < b ? -1 : 1;
+};
+
+const likeToRegExp = (pattern: string) =>
+  new RegExp(`^${pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.')}$`, 'is');
+
+const matchesFilter = (table: string, row: Row, filter: Filter): boolean => {
+  if ('or' in filter) return filter.or.some(f => matchesFilter(table, row, f));
+  if ('and' in filter) return filter.and.every(f => matchesFilter(table, row, f));
+  const computed = MEMORY_COMPUTED_FIELDS[table]?.[filter.column];
+  const actual = computed ? computed(row) : row[filter.column];
+  switch (filter.op) {
+    case 'eq': return String(actual) === String(filter.value);
+    case 'neq': return String(actual) !== String(filter.value);
+    case 'lt': return actual != null && compare(actual, filter.value) < 0;
+    case 'lte': return actual != null && compare(actual, filter.value) <= 0;
+    case 'gt': return actual != null && compare(actual, filter.value) > 0;
+    case 'gte': return actual != null && compare(actual, filter.value) >= 0;
+    case 'in': return (filter.value as any[]).some(v => String(v) === String(actual));
+    case 'ilike': return actual != null && likeToRegExp(String(filter.value)).test(String(actual));
+    case 'is': return actual == null ? filter.value === null : actual === filter.value;
+  }
+};
+
+const matchesAll = (table: string, row: Row, filters: Filter[] = []) => filters.every(f => matchesFilter(table, row, f));
+
+// Realtime filters only support the `column=eq.value` form, like Supabase
+const matchesChannelFilter = (row: Row, filter?: string) => {
+  if (!filter) return true;
+  const [column, condition] = filter.split('=');
+  const value = condition?.replace(/^eq\./, '');
+  return String(row[column]) === value;
+};
+
+const project = (row: Row, columns?: string): Row => {
+  if (!columns || columns.trim() === '*') return { ...row };
+  return columns.split(',').map(c => c.trim()).reduce((acc: Row, column) => {
+    acc[column] = row[column];
+    return acc;
+  }, {});
+};
+
+// A single-process stand-in for Supabase. Tables, storage and auth live in
+// memory and every write emits the same `postgres_changes` payloads the
+// realtime server would, so the UI behaves identically offline. The schema
+// is always current.
+export const createMemoryBackend = (seed: Record<string, Row[]> = {}): Backend => {
+  const tables = new Map<string, Row[]>([
+    ['schema_migrations', [{ version: SCHEMA_VERSION, name: 'memory', applied_at: new Date().toISOString() }]],
+    ...Object.entries(seed).map(([name, rows]): [string, Row[]] => [name, rows.map(r => ({ ...r }))])
+  ]);
+  const objects = new Map<string, { blob: Blob; url: string }>();
+  const users = new Map<string, MemoryUser>();
+  const authListeners = new Set<(session: Session | null) => void>();
+  const channels = new Set<ChangeListener[]>();
+  let session: Session | null = null;
+
+  const rowsOf = (table: string) => {
+    if (!tables.has(table)) tables.set(table, []);
+    return tables.get(table)!;
+  };
+
+  const emit = (table: string, eventType: ChangeEvent, next: Row, prev: Row) => {
+    const row = eventType === 'DELETE' ? prev : next;
+    // Deliver asynchronously, as the network would
+    queueMicrotask(() => {
+      channels.forEach(listeners => listeners.forEach(listener => {
+        if (listener.table !== table) return;
+        if (listener.event !== '*' && listener.event !== eventType) return;
+        if (!matchesChannelFilter(row, listener.filter)) return;
+        listener.onChange({ eventType, new: { ...next }, old: { ...prev } });
+      }));
+    });
+  };
+
+  const setSession = (next: Session | null) => {
+    session = next;
+    authListeners.forEach(listener => listener(session));
+  };
+
+  const requireUser = () => {
+    if (!session) throw new ApiError('Not signed in', '401');
+    return users.get(session.user.id)!;
+  };
+
+  // AFTER ... FOR EACH ROW triggers, run once the table holds the change
+  const runTriggers = (table: string, eventType: ChangeEvent, next: Row, prev: Row) => {
+    MEMORY_TRIGGERS[table]?.forEach(trigger => trigger(eventType, next, prev, { rowsOf, insert: insertRow, update: updateRows }));
+  };
+
+  const insertRow = (table: string, values: Row): Row => {
+    const row = { id: newId(), created_at: new Date().toISOString(), ...values };
+    rowsOf(table).push(row);
+    emit(table, 'INSERT', row, {});
+    runTriggers(table, 'INSERT', row, {});
+    return { ...row };
+  };
+
+  const updateRows = (table: string, patch: object, filters: Filter[]): Row[] => {
+    const updated: Row[] = [];
+    rowsOf(table).forEach((row, index, all) => {
+      if (!matchesAll(table, row, filters)) return;
+      const next = { ...row, ...patch };
+      all[index] = next;
+      emit(table, 'UPDATE', next, row);
+      runTriggers(table, 'UPDATE', next, row);
+      // As a BEFORE trigger would, a trigger's change to this row shows in the result
+      updated.push({ ...all[index] });
+    });
+    return updated;
+  };
+
+  // Deletes follow the foreign keys onto the removed rows, as Postgres would
+  const removeRows = (table: string, filters: Filter[]) => {
+    const all = rowsOf(table);
+    const removed = all.filter(row => matchesAll(table, row, filters));
+    if (removed.length === 0) return;
+    removed.forEach(row => emit(table, 'DELETE', {}, row));
+    tables.set(table, all.filter(row => !matchesAll(table, row, filters)));
+    const ids = removed.map(row => row.id);
+    MEMORY_FOREIGN_KEYS.filter(key => key.references === table).forEach((key) => {
+      const referencing = [inList(key.column, ids)];
+      if (key.onDelete === 'cascade') removeRows(key.table, referencing);
+      else updateRows(key.table, { [key.column]: null }, referencing);
+    });
+    removed.forEach(row => runTriggers(table, 'DELETE', {}, row));
+  };
+
+  return {
+    kind: 'memory',
+
+    auth: {
+      async getSession() {
+        return session;
+      },
+
+      onAuthStateChange(callback) {
+        authListeners.add(callback);
+        return () => { authListeners.delete(callback); };
+      },
+
+      async signUp(email, password, metadata) {
+        if ([...users.values()].some(u => u.email === email)) {
+          throw new ApiError('User already registered', '422');
+        }
+        const user: MemoryUser = { id: newId(), email, password, user_metadata: { ...metadata } };
+        users.set(user.id, user);
+        setSession({ user: { id: user.id, email, user_metadata: user.user_metadata } });
+      },
+
+      async signIn(email, password) {
+        const user = [...users.values()].find(u => u.email === email && u.password === password);
+        if (!user) throw new ApiError('Invalid login credentials', '400');
+        setSession({ user: { id: user.id, email, user_metadata: user.user_metadata } });
+      },
+
+      async signOut() {
+        setSession(null);
+      },
+
+      async updateUser(metadata) {
+        const user = requireUser();
+        user.user_metadata = { ...user.user_metadata, ...metadata };
+        setSession({ user: { id: user.id, email: user.email, user_metadata: user.user_metadata } });
+      }
+    },
+
+    storage: {
+      async upload(bucket, path, file, options = {}) {
+        const key = `${bucket}/${path}`;
+        const existing = objects.get(key);
+        if (existing && !options.upsert) throw new ApiError('The resource already exists', '409');
+        if (existing && typeof URL.revokeObjectURL === 'function') URL.revokeObjectURL(existing.url);
+        const url = typeof URL.createObjectURL === 'function' ? URL.createObjectURL(file) : `memory://${key}`;
+        objects.set(key, { blob: file, url });
+        return url;
+      },
+
+      async remove(bucket, paths) {
+        paths.forEach((path) => {
+          const key = `${bucket}/${path}`;
+          const existing = objects.get(key);
+          if (existing && typeof URL.revokeObjectURL === 'function') URL.revokeObjectURL(existing.url);
+          objects.delete(key);
+        });
+      }
+    },
+
+    async select<T>(table: string, query: Query = {}) {
+      let rows = rowsOf(table).filter(row => matchesAll(table, row, query.filters));
+      for (const { column, ascending = true } of [...(query.order ?? [])].reverse()) {
+        // Stable sort applied from the least significant key up
+        rows = [...rows].sort((a, b) => compare(a[column], b[column]) * (ascending ? 1 : -1));
+      }
+      if (query.limit != null) rows = rows.slice(0, query.limit);
+      return rows.map(row => project(row, query.columns)) as T[];
+    },
+
+    async count(table, filters) {
+      return rowsOf(table).filter(row => matchesAll(table, row, filters)).length;
+    },
+
+    async insert<T>(table: string, rows: object | object[]) {
+      return (Array.isArray(rows) ? rows : [rows]).map(values => insertRow(table, values)) as T[];
+    },
+
+    async update<T>(table: string, patch: object, filters: Filter[]) {
+      return updateRows(table, patch, filters) as T[];
+    },
+
+    async upsert<T>(table: string, rows: object | object[], onConflict = 'id', { ignoreDuplicates = false } = {}) {
+      const keys = onConflict.split(',').map(k => k.trim());
+      return (Array.isArray(rows) ? rows : [rows]).flatMap((values: Row) => {
+        const all = rowsOf(table);
+        const index = all.findIndex(row => keys.every(k => values[k] != null && String(row[k]) === String(values[k])));
+        if (index === -1) return [insertRow(table, values)];
+        if (ignoreDuplicates) return [];
+        const prev = all[index];
+        const next = { ...prev, ...values };
+        emit(table, 'UPDATE', next, prev);
+        all[index] = next;
+        runTriggers(table, 'UPDATE', next, prev);
+        return [{ ...next }];
+      }) as T[];
+    },
+
+    async remove(table, filters) {
+      removeRows(table, filters);
+    },
+
+    async rpc<T>(fn: string, args: Record<string, any> = {}) {
+      const handler = MEMORY_FUNCTIONS[fn];
+      if (!handler) throw new ApiError(`Could not find the function public.${fn}`, 'PGRST202');
+      return handler(rowsOf, args, { insert: insertRow, update: updateRows, remove: removeRows, userId: session?.user.id ?? null }) as T;
+    },
+
+    subscribe(_channelName, listeners) {
+      channels.add(listeners);
+      return () => { channels.delete(listeners); };
+    }
+  };
+};
@@ -0,0 +1,278 @@
+import { searchTerms, wordSimilarity } from '../search';
+import { countFacets, fromFilterArgs, matchesFilterArgs } from '../feedFilters';
+import { coversLeaseWindow } from '../housing';
+import { ActivityKind, trendingScore } from '../trending';
+import { BUMP_INTERVAL_HOURS, EXPIRY_REMINDER_DAYS, isExpired, listingExpiry, nextBumpAt } from '../expiry';
+import { ApiError } from '../api/errors';
+import { Listing } from '../../types';
+import { eq, inList } from './query';
+import { ChangeEvent, Filter } from './types';
+
+type Row = Record<string, any>;
+
+// Writes go through `update` / `insert` so they emit realtime events and run
+// triggers; `userId` is the signed-in user, as auth.uid() would return
+export interface MemoryFunctionContext {
+  insert: (table: string, values: Row) => Row;
+  update: (table: string, patch: object, filters: Filter[]) => Row[];
+  remove: (table: string, filters: Filter[]) => void;
+  userId: string | null;
+}
+
+// In-memory versions of the Postgres functions in `migrations/`, keyed by name
+export type MemoryFunction = (rowsOf: (table: string) => Row[], args: Record<string, any>, context: MemoryFunctionContext) => unknown;
+
+// Sold and expired listings are left out of the feed (0016, 0018)
+const isListed = (row: Row, now = Date.now()) => row.status !== 'sold' && !isExpired(row, now);
+
+// Views the database would have accepted: its insert policy turns away a
+// seller's own (0014_listing_views.sql)
+const countedViews = (rowsOf: (table: string) => Row[]) => {
+  const sellers = new Map(rowsOf('listings').map(row => [row.id, row.seller_id]));
+  return rowsOf('listing_views').filter(row => row.viewer_id !== sellers.get(row.listing_id));
+};
+
+// ts_rank's default weights for A / B / C / D
+const SEARCH_FIELDS: [string, number][] = [
+  ['title', 1.0],
+  ['brand', 0.4],
+  ['course_code', 0.4],
+  ['isbn', 0.4],
+  ['description', 0.2],
+  ['location', 0.1]
+];
+
+const TYPO_THRESHOLD = 0.5;
+
+// Mirrors 0010_search.sql without stemming: every term must prefix a word in
+// some field, or the whole query must be a close trigram match
+const rankSearch = (row: Row, query: string) => {
+  const terms = searchTerms(query);
+  const fieldWords = SEARCH_FIELDS.map(([column, weight]) => [searchTerms(String(row[column] ?? '')), weight] as const);
+  const termWeights = terms.map(term =>
+    Math.max(0, ...fieldWords.filter(([words]) => words.some(w => w.startsWith(term))).map(([, weight]) => weight))
+  );
+  const textMatch = terms.length > 0 && termWeights.every(weight => weight > 0);
+  const similarity = wordSimilarity(query, [row.title, row.brand, row.location].filter(Boolean).join(' '));
+  const rank = (textMatch ? termWeights.reduce((sum, w) => sum + w, 0) / terms.length : 0) + similarity;
+  return { rank, matches: textMatch || similarity >= TYPO_THRESHOLD };
+};
+
+const searchListings: MemoryFunction = (rowsOf, { query = '', result_limit = 60 }) => {
+  const limit = Math.min(Math.max(result_limit, 1), 200);
+
+  return rowsOf('listings')
+    .filter(row => isListed(row))
+    .map(row => ({ row, ...rankSearch(row, query) }))
+    .filter(result => result.matches)
+    .sort((a, b) => b.rank - a.rank || String(b.row.created_at).localeCompare(String(a.row.created_at)))
+    .slice(0, limit)
+    .map(result => ({ ...result.row }));
+};
+
+// 0012_feed_pagination.sql, skipping sold listings as of 0016 and expired ones as of 0018
+const listingFacetCounts: MemoryFunction = (rowsOf, { filters: args = {} }) => {
+  const { category, filters, leaseWindow } = fromFilterArgs(args);
+  const listings = (rowsOf('listings') as Listing[]).filter(listing =>
+    isListed(listing) && (!category || listing.category === category) && coversLeaseWindow(listing, leaseWindow)
+  );
+  return countFacets(listings, filters);
+};
+
+// 0014_listing_views.sql
+const trendingListings: MemoryFunction = (rowsOf, { category = null, result_limit = 10 }) => {
+  const limit = Math.min(Math.max(result_limit, 1), 50);
+  const activity = (table: string, kind: ActivityKind) =>
+    (table === 'listing_views' ? countedViews(rowsOf) : rowsOf(table)).filter(row => row.listing_id).map(row => ({ listing_id: row.listing_id, kind, created_at: row.created_at }));
+  const events = [...activity('listing_views', 'view'), ...activity('favorites', 'favorite'), ...activity('conversations', 'conversation')];
+  const now = Date.now();
+
+  return rowsOf('listings')
+    .filter(row => isListed(row) && (!category || row.category === category))
+    .map(row => ({ row, score: trendingScore(events.filter(e => e.listing_id === row.id), now) }))
+    .filter(result => result.score > 0)
+    .sort((a, b) =>
+      b.score - a.score
+      || String(b.row.created_at).localeCompare(String(a.row.created_at))
+      || String(b.row.id).localeCompare(String(a.row.id)))
+    .slice(0, limit)
+    .map(result => ({ ...result.row }));
+};
+
+// 0018_listing_expiry.sql. Both act on the caller's own listings only, as
+// RLS would have it.
+const ownListing = (rowsOf: (table: string) => Row[], id: string, userId: string | null) =>
+  rowsOf('listings').find(row => row.id === id && row.seller_id === userId);
+
+const renewListing: MemoryFunction = (rowsOf, { listing_id }, { update, userId }) => {
+  const listing = ownListing(rowsOf, listing_id, userId);
+  if (!listing || listing.status === 'sold') throw new ApiError("Listing can't be renewed");
+  const [renewed] = update('listings', { expires_at: listingExpiry(listing.category), expiry_reminded_at: null }, [eq('id', listing_id)]);
+  return renewed;
+};
+
+const bumpListing: MemoryFunction = (rowsOf, { listing_id }, { update, userId }) => {
+  const listing = ownListing(rowsOf, listing_id, userId);
+  if (!listing || !isListed(listing)) throw new ApiError("Listing can't be bumped");
+  if (nextBumpAt(listing as Listing) > Date.now()) {
+    throw new ApiError(`Listing can be bumped once every ${BUMP_INTERVAL_HOURS} hours`);
+  }
+  const now = new Date().toISOString();
+  const [bumped] = update('listings', { created_at: now, bumped_at: now }, [eq('id', listing_id)]);
+  return bumped;
+};
+
+const remindExpiringListings: MemoryFunction = (rowsOf, _args, { insert, update, userId }) => {
+  const now = Date.now();
+  const due = rowsOf('listings').filter(row =>
+    row.status !== 'sold'
+    && !row.expiry_reminded_at
+    && !isExpired(row, now)
+    && new Date(row.expires_at).getTime() <= now + EXPIRY_REMINDER_DAYS * 86_400_000
+    && (!userId || row.seller_id === userId));
+  due.forEach((row) => {
+    update('listings', { expiry_reminded_at: new Date(now).toISOString() }, [eq('id', row.id)]);
+    insert('notifications', { user_id: row.seller_id, kind: 'listing_expiring', listing_id: row.id, saved_search_id: null, read_at: null });
+  });
+  return due.length;
+};
+
+// 0022_update_listing.sql. Everything is checked before the first write, which
+// is as close to one transaction as the memory backend gets.
+const EDITABLE_LISTING_COLUMNS = [
+  'title', 'brand', 'size', 'gender', 'price', 'condition', 'location', 'description',
+  'isbn', 'course_code', 'edition', 'access_code_included',
+  'lease_start', 'lease_end', 'bedrooms', 'bathrooms', 'furnished', 'roommate_gender'
+];
+
+const updateListing: MemoryFunction = (rowsOf, { listing_id, changes = {}, photos = [] }, { insert, update, remove, userId }) => {
+  if (!ownListing(rowsOf, listing_id, userId)) throw new ApiError('Listing was not updated');
+  const keptIds = (photos as Row[]).filter(photo => photo.id).map(photo => String(photo.id));
+  const current = rowsOf('listing_photos').filter(row => row.listing_id === listing_id);
+  if (keptIds.some(id => !current.some(row => row.id === id))) throw new ApiError('Photo not found on this listing');
+
+  const patch = Object.fromEntries(EDITABLE_LISTING_COLUMNS.filter(column => column in changes).map(column => [column, changes[column]]));
+  const [listing] = update('listings', { ...patch, updated_at: new Date().toISOString() }, [eq('id', listing_id)]);
+  const removed = current.filter(row => !keptIds.includes(row.id)).map(row => ({ ...row }));
+  if (removed.length > 0) remove('listing_photos', [inList('id', removed.map(row => row.id))]);
+  (photos as Row[]).forEach((photo, position) => {
+    if (photo.id) {
+      update('listing_photos', { position }, [eq('id', photo.id)]);
+    } else {
+      const { url, storage_path = null, width = null, height = null } = photo;
+      insert('listing_photos', { listing_id, position, url, storage_path, width, height });
+    }
+  });
+  const saved = rowsOf('listing_photos')
+    .filter(row => row.listing_id === listing_id)
+    .sort((a, b) => a.position - b.position)
+    .map(row => ({ ...row }));
+  return { listing, photos: saved, removed };
+};
+
+export const MEMORY_FUNCTIONS: Record<string, MemoryFunction> = {
+  search_listings: searchListings,
+  listing_facet_counts: listingFacetCounts,
+  trending_listings: trendingListings,
+  renew_listing: renewListing,
+  bump_listing: bumpListing,
+  remind_expiring_listings: remindExpiringListings,
+  update_listing: updateListing
+};
+
+// Computed fields (functions over a table's row type, which PostgREST lets
+// queries filter on), keyed by table
+export const MEMORY_COMPUTED_FIELDS: Record<string, Record<string, (row: Row) => unknown>> = {
+  // 0020_listing_is_expired.sql
+  listings: { is_expired: row => isExpired(row) }
+};
+
+export interface MemoryTriggerContext {
+  rowsOf: (table: string) => Row[];
+  insert: (table: string, values: Row) => void;
+  update: (table: string, patch: object, filters: Filter[]) => void;
+}
+
+// In-memory versions of the row triggers in `migrations/`, keyed by table
+export type MemoryTrigger = (eventType: ChangeEvent, next: Row, prev: Row, context: MemoryTriggerContext) => void;
+
+// 0011_favorite_counts.sql
+const syncFavoriteCount: MemoryTrigger = (eventType, next, prev, { rowsOf, update }) => {
+  if (eventType === 'UPDATE') return;
+  const listingId = eventType === 'INSERT' ? next.listing_id : prev.listing_id;
+  const count = rowsOf('favorites').filter(row => row.listing_id === listingId).length;
+  update('listings', { favorite_count: count }, [eq('id', listingId)]);
+};
+
+// 0013_saved_searches.sql: one alert per user, however many of their searches match
+const notifySavedSearches: MemoryTrigger = (eventType, next, _prev, { rowsOf, insert }) => {
+  if (eventType !== 'INSERT') return;
+  const notified = new Set<string>();
+  rowsOf('saved_searches').forEach((search) => {
+    if (search.paused || search.user_id === next.seller_id || notified.has(search.user_id)) return;
+    if (!matchesFilterArgs(next as Listing, search.filters ?? {})) return;
+    if (search.query.trim() && !rankSearch(next, search.query).matches) return;
+    notified.add(search.user_id);
+    insert('notifications', { user_id: search.user_id, kind: 'saved_search', listing_id: next.id, saved_search_id: search.id, read_at: null });
+  });
+};
+
+// 0014_listing_views.sql
+const syncViewCount: MemoryTrigger = (eventType, next, _prev, { rowsOf, update }) => {
+  if (eventType !== 'INSERT') return;
+  const count = countedViews(rowsOf).filter(row => row.listing_id === next.listing_id).length;
+  update('listings', { view_count: count }, [eq('id', next.listing_id)]);
+};
+
+const syncConversationCount: MemoryTrigger = (eventType, next, _prev, { rowsOf, update }) => {
+  if (eventType !== 'INSERT' || !next.listing_id) return;
+  const count = rowsOf('conversations').filter(row => row.listing_id === next.listing_id).length;
+  update('listings', { conversation_count: count }, [eq('id', next.listing_id)]);
+};
+
+const PRICE_DROP_INTERVAL_MS = 24 * 3_600_000;
+
+// 0019_price_history.sql and 0021_price_drop_guard.sql: set_previous_price and
+// record_price_change
+const recordPriceChange: MemoryTrigger = (eventType, next, prev, { rowsOf, insert }) => {
+  if (eventType !== 'UPDATE') return;
+  // `next` is the stored row itself, so this stands in for the BEFORE trigger
+  next.previous_price = Number(next.price) === Number(prev.price) ? prev.previous_price ?? null : prev.price;
+  if (Number(next.price) === Number(prev.price)) return;
+  insert('listing_price_changes', { listing_id: next.id, old_price: prev.price, new_price: next.price });
+  if (Number(next.price) >= Number(prev.price) || !isListed(next)) return;
+  // No second alert while the last is unread or recent
+  const alerted = (userId: string) => rowsOf('notifications').some(row =>
+    row.user_id === userId && row.listing_id === next.id && row.kind === 'price_drop'
+    && (!row.read_at || Date.now() - new Date(row.created_at).getTime() < PRICE_DROP_INTERVAL_MS));
+  rowsOf('favorites')
+    .filter(row => row.listing_id === next.id && row.user_id !== next.seller_id && !alerted(row.user_id))
+    .forEach(row => insert('notifications', { user_id: row.user_id, kind: 'price_drop', listing_id: next.id, saved_search_id: null, read_at: null }));
+};
+
+// The foreign keys in `migrations/` that act on delete
+export interface MemoryForeignKey {
+  table: string;
+  column: string;
+  references: string;
+  onDelete: 'cascade' | 'set null';
+}
+
+export const MEMORY_FOREIGN_KEYS: MemoryForeignKey[] = [
+  { table: 'favorites', column: 'listing_id', references: 'listings', onDelete: 'cascade' },
+  // 0016_listing_status.sql: chats outlive their listing
+  { table: 'conversations', column: 'listing_id', references: 'listings', onDelete: 'set null' },
+  { table: 'messages', column: 'conversation_id', references: 'conversations', onDelete: 'cascade' },
+  { table: 'listing_photos', column: 'listing_id', references: 'listings', onDelete: 'cascade' },
+  { table: 'notifications', column: 'listing_id', references: 'listings', onDelete: 'cascade' },
+  { table: 'notifications', column: 'saved_search_id', references: 'saved_searches', onDelete: 'cascade' },
+  { table: 'listing_views', column: 'listing_id', references: 'listings', onDelete: 'cascade' },
+  { table: 'listing_price_changes', column: 'listing_id', references: 'listings', onDelete: 'cascade' }
+];
+
+export const MEMORY_TRIGGERS: Record<string, MemoryTrigger[]> = {
+  favorites: [syncFavoriteCount],
+  listings: [notifySavedSearches, recordPriceChange],
+  listing_views: [syncViewCount],
+  conversations: [syncConversationCount]
+};
@@ -0,0 +1,16 @@
+import { Filter, Order } from './types';
+
+export const eq = (column: string, value: any): Filter => ({ column, op: 'eq', value });
+export const neq = (column: string, value: any): Filter => ({ column, op: 'neq', value });
+export const lt = (column: string, value: any): Filter => ({ column, op: 'lt', value });
+export const lte = (column: string, value: any): Filter => ({ column, op: 'lte', value });
+export const gt = (column: string, value: any): Filter => ({ column, op: 'gt', value });
+export const gte = (column: string, value: any): Filter => ({ column, op: 'gte', value });
+export const inList = (column: string, values: any[]): Filter => ({ column, op: 'in', value: values });
+export const ilike = (column: string, pattern: string): Filter => ({ column, op: 'ilike', value: pattern });
+export const isNull = (column: string): Filter => ({ column, op: 'is', value: null });
+export const or = (...filters: Filter[]): Filter => ({ or: filters });
+export const and = (...filters: Filter[]): Filter => ({ and: filters });
+
+export const asc = (column: string): Order => ({ column, ascending: true });
+export const desc = (column: string): Order => ({ column, ascending: false });
@@ -0,0 +1,165 @@
+import { getSupabase } from '../supabase';
+import { Session } from '../../types';
+import { toApiError, unwrap } from '../api/errors';
+import { Backend, ChangePayload, Filter, Query } from './types';
+
+// PostgREST needs reserved characters quoted inside or()/and() groups
+const formatValue = (value: any): string => {
+  if (value === null) return 'null';
+  const text = String(value);
+  return /[,.:()"\s]/.test(text) ? `"${text.replace(/"/g, '\\"')}"` : text;
+};
+
+const toFilterString = (filter: Filter): string => {
+  if ('or' in filter) return `or(${filter.or.map(toFilterString).join(',')})`;
+  if ('and' in filter) return `and(${filter.and.map(toFilterString).join(',')})`;
+  const value = filter.op === 'in'
+    ? `(${(filter.value as any[]).map(formatValue).join(',')})`
+    : formatValue(filter.value);
+  return `${filter.column}.${filter.op}.${value}`;
+};
+
+const applyFilters = (builder: any, filters: Filter[] = []) => {
+  for (const filter of filters) {
+    if ('or' in filter) {
+      builder = builder.or(filter.or.map(toFilterString).join(','));
+    } else if ('and' in filter) {
+      builder = applyFilters(builder, filter.and);
+    } else {
+      builder = builder.filter(filter.column, filter.op, filter.op === 'in'
+        ? `(${(filter.value as any[]).map(formatValue).join(',')})`
+        : filter.value);
+    }
+  }
+  return builder;
+};
+
+const client = () => getSupabase().catch((err) => {
+  throw toApiError(err, 'Could not load the Supabase client');
+});
+
+export const createSupabaseBackend = (): Backend => ({
+  kind: 'supabase',
+
+  auth: {
+    async getSession() {
+      const supabase = await client();
+      const { session } = unwrap<{ session: Session | null }>(await supabase.auth.getSession());
+      return session;
+    },
+
+    onAuthStateChange(callback) {
+      let unsubscribe: (() => void) | null = null;
+      let cancelled = false;
+      client().then((supabase) => {
+        if (cancelled) return;
+        const { data: { subscription } } = supabase.auth.onAuthStateChange(
+          (_event: string, session: Session | null) => callback(session)
+        );
+        unsubscribe = () => subscription.unsubscribe();
+      }).catch((err) => console.error('Auth listener error:', err.message));
+      return () => {
+        cancelled = true;
+        unsubscribe?.();
+      };
+    },
+
+    async signUp(email, password, metadata) {
+      const supabase = await client();
+      unwrap(await supabase.auth.signUp({ email, password, options: { data: metadata } }));
+    },
+
+    async signIn(email, password) {
+      const supabase = await client();
+      unwrap(await supabase.auth.signInWithPassword({ email, password }));
+    },
+
+    async signOut() {
+      const supabase = await client();
+      unwrap(await supabase.auth.signOut());
+    },
+
+    async updateUser(metadata) {
+      const supabase = await client();
+      unwrap(await supabase.auth.updateUser({ data: metadata }));
+    }
+  },
+
+  storage: {
+    async upload(bucket, path, file, options = {}) {
+      const supabase = await client();
+      unwrap(await supabase.storage.from(bucket).upload(path, file, options));
+      return supabase.storage.from(bucket).getPublicUrl(path).data.publicUrl;
+    },
+
+    async remove(bucket, paths) {
+      if (paths.length === 0) return;
+      const supabase = await client();
+      unwrap(await supabase.storage.from(bucket).remove(paths));
+    }
+  },
+
+  async select<T>(table: string, query: Query = {}) {
+    const supabase = await client();
+    let builder = applyFilters(supabase.from(table).select(query.columns ?? '*'), query.filters);
+    for (const { column, ascending = true } of query.order ?? []) {
+      builder = builder.order(column, { ascending });
+    }
+    if (query.limit != null) builder = builder.limit(query.limit);
+    return unwrap<T[]>(await builder) ?? [];
+  },
+
+  async count(table, filters) {
+    const supabase = await client();
+    const response = await applyFilters(supabase.from(table).select('*', { count: 'exact', head: true }), filters);
+    unwrap(response);
+    return response.count ?? 0;
+  },
+
+  async insert<T>(table: string, rows: object | object[]) {
+    const supabase = await client();
+    return unwrap<T[]>(await supabase.from(table).insert(rows).select()) ?? [];
+  },
+
+  async update<T>(table: string, patch: object, filters: Filter[]) {
+    const supabase = await client();
+    return unwrap<T[]>(await applyFilters(supabase.from(table).update(patch), filters).select()) ?? [];
+  },
+
+  async upsert<T>(table: string, rows: object | object[], onConflict = 'id', { ignoreDuplicates = false } = {}) {
+    const supabase = await client();
+    return unwrap<T[]>(await supabase.from(table).upsert(rows, { onConflict, ignoreDuplicates }).select()) ?? [];
+  },
+
+  async remove(table, filters) {
+    const supabase = await client();
+    unwrap(await applyFilters(supabase.from(table).delete(), filters));
+  },
+
+  async rpc<T>(fn: string, args: Record<string, any> = {}) {
+    const supabase = await client();
+    return unwrap<T>(await supabase.rpc(fn, args));
+  },
+
+  subscribe(channelName, listeners) {
+    let teardown: (() => void) | null = null;
+    let cancelled = false;
+    client().then((supabase) => {
+      if (cancelled) return;
+      let channel = supabase.channel(channelName);
+      listeners.forEach(({ event, table, filter, onChange }) => {
+        channel = channel.on(
+          'postgres_changes',
+          { event, schema: 'public', table, ...(filter ? { filter } : {}) },
+          (payload: ChangePayload) => onChange(payload)
+        );
+      });
+      channel.subscribe();
+      teardown = () => { supabase.removeChannel(channel); };
+    }).catch((err) => console.error('Realtime subscribe error:', err.message));
+    return () => {
+      cancelled = true;
+      teardown?.();
+    };
+  }
+});
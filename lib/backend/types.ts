@@ -0,0 +1,74 @@
+import { Session } from '../../types';
+
+export type FilterOp = 'eq' | 'neq' | 'lt' | 'lte' | 'gt' | 'gte' | 'in' | 'ilike' | 'is';
+
+export type Filter =
+  | { column: string; op: FilterOp; value: any }
+  | { or: Filter[] }
+  | { and: Filter[] };
+
+export interface Order {
+  column: string;
+  ascending?: boolean;
+}
+
+export interface Query {
+  // Comma separated column list, defaults to `*`
+  columns?: string;
+  filters?: Filter[];
+  order?: Order[];
+  limit?: number;
+}
+
+export type ChangeEvent = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface ChangePayload<T = any> {
+  eventType: ChangeEvent;
+  new: T;
+  old: Partial<T>;
+}
+
+export interface ChangeListener<T = any> {
+  event: ChangeEvent | '*';
+  table: string;
+  // PostgREST filter, e.g. `seller_id=eq.<uuid>`
+  filter?: string;
+  onChange: (payload: ChangePayload<T>) => void;
+}
+
+export interface AuthBackend {
+  getSession(): Promise<Session | null>;
+  // Returns an unsubscribe function
+  onAuthStateChange(callback: (session: Session | null) => void): () => void;
+  signUp(email: string, password: string, metadata: Record<string, any>): Promise<void>;
+  signIn(email: string, password: string): Promise<void>;
+  signOut(): Promise<void>;
+  updateUser(metadata: Record<string, any>): Promise<void>;
+}
+
+export interface StorageBackend {
+  // Stores the file and returns its public URL
+  upload(bucket: string, path: string, file: Blob, options?: { upsert?: boolean }): Promise<string>;
+  // Deletes objects by path; paths that don't exist are ignored
+  remove(bucket: string, paths: string[]): Promise<void>;
+}
+
+// Everything the app needs from a hosted backend. All methods reject with ApiError.
+export interface Backend {
+  readonly kind: 'supabase' | 'memory';
+  auth: AuthBackend;
+  storage: StorageBackend;
+  select<T>(table: string, query?: Query): Promise<T[]>;
+  // Number of rows matching `filters`, without fetching them
+  count(table: string, filters?: Filter[]): Promise<number>;
+  insert<T>(table: string, rows: object | object[]): Promise<T[]>;
+  update<T>(table: string, patch: object, filters: Filter[]): Promise<T[]>;
+  // With `ignoreDuplicates`, rows that conflict are left as they are (`on conflict
+  // do nothing`) and only the inserted rows are returned
+  upsert<T>(table: string, rows: object | object[], onConflict?: string, options?: { ignoreDuplicates?: boolean }): Promise<T[]>;
+  remove(table: string, filters: Filter[]): Promise<void>;
+  // Calls a Postgres function in the public schema
+  rpc<T>(fn: string, args?: Record<string, any>): Promise<T>;
+  // Subscribes a named channel to `postgres_changes`; returns an unsubscribe function
+  subscribe(channelName: string, listeners: ChangeListener[]): () => void;
+}
@@ -0,0 +1,98 @@
+export type Environment = 'development' | 'staging' | 'production';
+export type BackendKind = 'supabase' | 'memory';
+
+export interface AppConfig {
+  environment: Environment;
+  backend: BackendKind;
+  supabaseUrl: string;
+  supabaseAnonKey: string;
+  campusName: string;
+  buckets: {
+    listings: string;
+    avatars: string;
+  };
+  maxPhotos: number;
+}
+
+export interface ConfigIssue {
+  key: string;
+  message: string;
+}
+
+const ENVIRONMENTS: Environment[] = ['development', 'staging', 'production'];
+const BUCKET_PATTERN = /^[a-z0-9][a-z0-9._-]{1,62}$/;
+
+const text = (value: string | undefined) => (value ?? '').trim();
+
+// Reads and validates the Vite env. Always returns a usable config (falling
+// back to defaults) alongside every problem found, so the caller decides
+// whether to boot or show the config screen.
+export const loadConfig = (env: ImportMetaEnv): { config: AppConfig; issues: ConfigIssue[] } => {
+  const issues: ConfigIssue[] = [];
+
+  const mode = text(env.VITE_APP_ENV) || env.MODE;
+  const environment = ENVIRONMENTS.includes(mode as Environment) ? mode as Environment : 'development';
+  if (text(env.VITE_APP_ENV) && environment !== env.VITE_APP_ENV) {
+    issues.push({ key: 'VITE_APP_ENV', message: `Must be one of ${ENVIRONMENTS.join(', ')}` });
+  }
+
+  const backendValue = text(env.VITE_BACKEND) || 'supabase';
+  const backend: BackendKind = backendValue === 'memory' ? 'memory' : 'supabase';
+  if (backendValue !== backend) {
+    issues.push({ key: 'VITE_BACKEND', message: 'Must be "supabase" or "memory"' });
+  }
+
+  const supabaseUrl = text(env.VITE_SUPABASE_URL);
+  const supabaseAnonKey = text(env.VITE_SUPABASE_ANON_KEY);
+  if (backend === 'supabase') {
+    if (!supabaseUrl) {
+      issues.push({ key: 'VITE_SUPABASE_URL', message: 'Missing' });
+    } else if (!/^https:\/\/[^\s/]+/.test(supabaseUrl) && !(environment === 'development' && /^http:\/\/(localhost|127\.0\.0\.1)(:\d+)?/.test(supabaseUrl))) {
+      issues.push({ key: 'VITE_SUPABASE_URL', message: 'Must be an https:// project URL' });
+    }
+    if (!supabaseAnonKey) {
+      issues.push({ key: 'VITE_SUPABASE_ANON_KEY', message: 'Missing' });
+    } else if (!/^eyJ[\w-]*\.[\w-]+\.[\w-]+$/.test(supabaseAnonKey)) {
+      issues.push({ key: 'VITE_SUPABASE_ANON_KEY', message: 'Must be the project\'s anon JWT' });
+    }
+  }
+
+  const buckets = {
+    listings: text(env.VITE_LISTINGS_BUCKET) || 'listings',
+    avatars: text(env.VITE_AVATARS_BUCKET) || 'avatars'
+  };
+  if (!BUCKET_PATTERN.test(buckets.listings)) {
+    issues.push({ key: 'VITE_LISTINGS_BUCKET', message: 'Not a valid bucket name' });
+  }
+  if (!BUCKET_PATTERN.test(buckets.avatars)) {
+    issues.push({ key: 'VITE_AVATARS_BUCKET', message: 'Not a valid bucket name' });
+  }
+
+  let maxPhotos = 10;
+  if (text(env.VITE_MAX_PHOTOS)) {
+    const parsed = Number(env.VITE_MAX_PHOTOS);
+    if (Number.isInteger(parsed) && parsed >= 1 && parsed <= 20) {
+      maxPhotos = parsed;
+    } else {
+      issues.push({ key: 'VITE_MAX_PHOTOS', message: 'Must be a whole number from 1 to 20' });
+    }
+  }
+
+  return {
+    config: {
+      environment,
+      backend,
+      supabaseUrl,
+      supabaseAnonKey,
+      campusName: text(env.VITE_CAMPUS_NAME) || 'UTD',
+      buckets,
+      maxPhotos
+    },
+    issues
+  };
+};
+
+const loaded = loadConfig(import.meta.env);
+
+export const config: AppConfig = loaded.config;
+export const configIssues: ConfigIssue[] = loaded.issues;
@@ -0,0 +1,56 @@
+// RFC 4180 CSV: quoted fields may hold commas, newlines and doubled quotes.
+// Blank lines are skipped.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  endRow();
+  return rows;
+};
+
+// Header names as column keys: "Course Code" reads as `course_code`
+export const csvHeaderKey = (header: string) => header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+// One object per data row, keyed by the first row's headers; values are trimmed
+export const parseCsvRecords = (text: string): { headers: string[]; records: Record<string, string>[] } => {
+  const [headerRow = [], ...rows] = parseCsv(text);
+  const headers = headerRow.map(csvHeaderKey);
+  const records = rows.map(row => headers.reduce((record: Record<string, string>, header, i) => {
+    if (header) record[header] = (row[i] ?? '').trim();
+    return record;
+  }, {}));
+  return { headers, records };
+};
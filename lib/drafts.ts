@@ -0,0 +1,106 @@
+import { deleteListingDraft, listListingDrafts, saveListingDraft } from './api';
+import { ListingDraft } from '../types';
+
+// A draft as the device holds it: the `listing_drafts` row plus its photos
+export interface LocalDraft extends ListingDraft {
+  photos: File[];
+}
+
+const DB_NAME = 'hucksta-drafts';
+const STORE = 'drafts';
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'id' });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      database = null;
+      reject(request.error);
+    };
+  });
+  return database;
+};
+
+// One request in its own transaction, resolved once the transaction commits
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = action(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const listLocalDrafts = async (userId: string): Promise<LocalDraft[]> => {
+  const drafts = await run<LocalDraft[]>('readonly', store => store.getAll());
+  return drafts.filter(draft => draft.user_id === userId);
+};
+
+const toRow = ({ photos, ...draft }: LocalDraft): ListingDraft => ({ ...draft, photo_count: photos.length });
+
+// Saves and discards of a draft run one after another, and saves that were
+// still queued when it was discarded are dropped, so an autosave in flight
+// can't bring a discarded draft back
+const queues = new Map<string, Promise<unknown>>();
+const discarded = new Set<string>();
+
+const enqueue = <T>(id: string, task: () => Promise<T>): Promise<T> => {
+  const result = (queues.get(id) ?? Promise.resolve()).catch(() => undefined).then(task);
+  queues.set(id, result);
+  const settled = () => {
+    if (queues.get(id) === result) queues.delete(id);
+  };
+  result.then(settled, settled);
+  return result;
+};
+
+export const newDraftId = (): string => crypto.randomUUID();
+
+// The user's drafts, newest first: the ones on this device, plus any saved from
+// another device (without photos). Where both copies exist the newer one wins,
+// keeping this device's photos.
+export const listDrafts = async (userId: string): Promise<LocalDraft[]> => {
+  const [local, remote] = await Promise.all([
+    listLocalDrafts(userId),
+    listListingDrafts(userId).catch((err) => {
+      console.error('Error loading saved drafts:', err.message || err);
+      return [];
+    })
+  ]);
+  const drafts = new Map(local.map(draft => [draft.id, draft]));
+  remote.forEach((row) => {
+    const mine = drafts.get(row.id);
+    if (!mine || row.updated_at > mine.updated_at) drafts.set(row.id, { ...row, photos: mine?.photos ?? [] });
+  });
+  return [...drafts.values()].sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+};
+
+export const loadDraft = async (userId: string, id: string): Promise<LocalDraft | null> => {
+  const drafts = await listDrafts(userId);
+  return drafts.find(draft => draft.id === id) ?? null;
+};
+
+// Saved on the device first, so photos survive a reload even when the upload
+// of the values fails, e.g. offline
+export const saveDraft = (draft: LocalDraft): Promise<void> => enqueue(draft.id, async () => {
+  if (discarded.has(draft.id)) return;
+  await run('readwrite', store => store.put(draft));
+  try {
+    await saveListingDraft(toRow(draft));
+  } catch (err: any) {
+    console.error('Error syncing draft:', err.message || err);
+  }
+});
+
+// The saved copy goes first: if that fails (e.g. offline) the draft stays
+// whole on the device, rather than coming back from the server without photos
+export const discardDraft = (id: string): Promise<void> => enqueue(id, async () => {
+  await deleteListingDraft(id);
+  await run('readwrite', store => store.delete(id));
+  discarded.add(id);
+});
@@ -0,0 +1,49 @@
+import { Category, Listing } from '../types';
+
+// How long a listing stays up before it has to be renewed;
+// `listing_lifetime` in 0018_listing_expiry.sql mirrors these
+export const LISTING_LIFETIME_DAYS: Record<Category, number> = {
+  Clothing: 30,
+  Furniture: 30,
+  Electronics: 30,
+  // A semester, so course books last until the next one
+  Textbooks: 90,
+  Housing: 60
+};
+
+// Sellers are reminded this long before a listing expires
+export const EXPIRY_REMINDER_DAYS = 3;
+
+// A listing can be bumped back to the top of the feed this often
+export const BUMP_INTERVAL_HOURS = 72;
+
+const DAY_MS = 86_400_000;
+
+export const listingExpiry = (category: Category, from = Date.now()): string =>
+  new Date(from + LISTING_LIFETIME_DAYS[category] * DAY_MS).toISOString();
+
+type ListingDates = Pick<Listing, 'created_at' | 'expires_at' | 'status'>;
+
+export const isExpired = (listing: Pick<Listing, 'expires_at'>, now = Date.now()): boolean =>
+  !!listing.expires_at && new Date(listing.expires_at).getTime() <= now;
+
+export const expiresSoon = (listing: ListingDates, now = Date.now()): boolean =>
+  listing.status !== 'sold'
+  && !!listing.expires_at
+  && !isExpired(listing, now)
+  && new Date(listing.expires_at).getTime() - now <= EXPIRY_REMINDER_DAYS * DAY_MS;
+
+// When the listing may next be bumped; bumping moves created_at, so it counts from there
+export const nextBumpAt = (listing: ListingDates): number =>
+  new Date(listing.created_at).getTime() + BUMP_INTERVAL_HOURS * 3_600_000;
+
+export const canBump = (listing: ListingDates, now = Date.now()): boolean =>
+  listing.status !== 'sold' && !isExpired(listing, now) && nextBumpAt(listing) <= now;
+
+// "3d", "5h" or "20m" until `time`
+export const formatTimeLeft = (time: number, now = Date.now()): string => {
+  const minutes = Math.max(1, Math.ceil((time - now) / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 60 * 24) return `${Math.ceil(minutes / 60)}h`;
+  return `${Math.ceil(minutes / (60 * 24))}d`;
+};
@@ -0,0 +1,245 @@
+import { Category, Listing } from '../types';
+import { coversLeaseWindow, LeaseWindow } from './housing';
+import { isExpired } from './expiry';
+
+export type FeedSort = 'newest' | 'price_asc' | 'price_desc' | 'most_favorited';
+export type PostedWithin = '24h' | '7d' | '30d';
+export type Facet = 'price' | 'condition' | 'size' | 'gender' | 'location' | 'postedWithin';
+
+export interface FeedFilters {
+  minPrice: number | null;
+  maxPrice: number | null;
+  conditions: string[];
+  sizes: string[];
+  genders: string[];
+  locations: string[];
+  postedWithin: PostedWithin | null;
+  // null keeps the view's natural order: newest, or relevance while searching
+  sort: FeedSort | null;
+}
+
+export const EMPTY_FILTERS: FeedFilters = {
+  minPrice: null,
+  maxPrice: null,
+  conditions: [],
+  sizes: [],
+  genders: [],
+  locations: [],
+  postedWithin: null,
+  sort: null
+};
+
+export const SORT_OPTIONS: { value: FeedSort; label: string }[] = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'price_asc', label: 'Price: Low to High' },
+  { value: 'price_desc', label: 'Price: High to Low' },
+  { value: 'most_favorited', label: 'Most Favorited' }
+];
+
+export const POSTED_WITHIN_OPTIONS: { value: PostedWithin; label: string; hours: number }[] = [
+  { value: '24h', label: 'Last 24 Hours', hours: 24 },
+  { value: '7d', label: 'Last 7 Days', hours: 24 * 7 },
+  { value: '30d', label: 'Last 30 Days', hours: 24 * 30 }
+];
+
+// Letter sizes in wearing order; anything else sorts after them alphabetically
+const SIZE_ORDER = ['XXS', 'XS', 'S', 'M', 'L', 'XL', 'XXL', 'XXXL'];
+
+export const normalizeSize = (size?: string) => (size ?? '').trim().toUpperCase();
+
+// Sizes and locations come from the data, so they're passed in as seen
+export const sizeOptions = (values: string[]): string[] => {
+  const sizes = [...new Set(values.map(normalizeSize).filter(Boolean))];
+  const rank = (size: string) => SIZE_ORDER.includes(size) ? SIZE_ORDER.indexOf(size) : SIZE_ORDER.length;
+  return sizes.sort((a, b) => rank(a) - rank(b) || a.localeCompare(b, undefined, { numeric: true }));
+};
+
+export const locationOptions = (values: string[]): string[] =>
+  [...new Set(values.filter(Boolean))].sort((a, b) => a.localeCompare(b));
+
+// URL keys: ?min=5&max=40&condition=New&condition=Good&size=M&gender=Mens&location=ECSS&within=7d&sort=price_asc
+const parsePrice = (value: string | null) => {
+  if (value == null || value.trim() === '') return null;
+  const price = Number(value);
+  return Number.isFinite(price) && price >= 0 ? price : null;
+};
+
+export const parseFeedFilters = (params: URLSearchParams): FeedFilters => {
+  const within = params.get('within');
+  const sort = params.get('sort');
+  return {
+    minPrice: parsePrice(params.get('min')),
+    maxPrice: parsePrice(params.get('max')),
+    conditions: params.getAll('condition'),
+    sizes: params.getAll('size').map(normalizeSize),
+    genders: params.getAll('gender'),
+    locations: params.getAll('location'),
+    postedWithin: POSTED_WITHIN_OPTIONS.some(o => o.value === within) ? within as PostedWithin : null,
+    sort: SORT_OPTIONS.some(o => o.value === sort) ? sort as FeedSort : null
+  };
+};
+
+// Replaces the filter keys in `params`, leaving any others (e.g. category) alone
+export const writeFeedFilters = (params: URLSearchParams, filters: FeedFilters): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  ['min', 'max', 'condition', 'size', 'gender', 'location', 'within', 'sort'].forEach(key => next.delete(key));
+  if (filters.minPrice != null) next.set('min', String(filters.minPrice));
+  if (filters.maxPrice != null) next.set('max', String(filters.maxPrice));
+  filters.conditions.forEach(v => next.append('condition', v));
+  filters.sizes.forEach(v => next.append('size', v));
+  filters.genders.forEach(v => next.append('gender', v));
+  filters.locations.forEach(v => next.append('location', v));
+  if (filters.postedWithin) next.set('within', filters.postedWithin);
+  if (filters.sort) next.set('sort', filters.sort);
+  return next;
+};
+
+// Drops values for facets the current view doesn't offer
+export const restrictFilters = (filters: FeedFilters, facets: Facet[]): FeedFilters => ({
+  ...filters,
+  minPrice: facets.includes('price') ? filters.minPrice : null,
+  maxPrice: facets.includes('price') ? filters.maxPrice : null,
+  conditions: facets.includes('condition') ? filters.conditions : [],
+  sizes: facets.includes('size') ? filters.sizes : [],
+  genders: facets.includes('gender') ? filters.genders : [],
+  locations: facets.includes('location') ? filters.locations : [],
+  postedWithin: facets.includes('postedWithin') ? filters.postedWithin : null
+});
+
+export const activeFilterCount = (filters: FeedFilters): number =>
+  (filters.minPrice != null || filters.maxPrice != null ? 1 : 0)
+  + filters.conditions.length
+  + filters.sizes.length
+  + filters.genders.length
+  + filters.locations.length
+  + (filters.postedWithin ? 1 : 0);
+
+export const postedWithinCutoff = (postedWithin: PostedWithin, now: number) =>
+  now - POSTED_WITHIN_OPTIONS.find(o => o.value === postedWithin)!.hours * 60 * 60 * 1000;
+
+// `except` skips one facet, so its options can be counted against the rest
+export const matchesFeedFilters = (listing: Listing, filters: FeedFilters, now = Date.now(), except?: Facet): boolean => {
+  const price = Number(listing.price);
+  if (except !== 'price') {
+    if (filters.minPrice != null && price < filters.minPrice) return false;
+    if (filters.maxPrice != null && price > filters.maxPrice) return false;
+  }
+  if (except !== 'condition' && filters.conditions.length > 0 && !filters.conditions.includes(listing.condition ?? '')) return false;
+  if (except !== 'size' && filters.sizes.length > 0 && !filters.sizes.includes(normalizeSize(listing.size))) return false;
+  if (except !== 'gender' && filters.genders.length > 0 && !filters.genders.includes(listing.gender ?? '')) return false;
+  if (except !== 'location' && filters.locations.length > 0 && !filters.locations.includes(listing.location)) return false;
+  if (except !== 'postedWithin' && filters.postedWithin && new Date(listing.created_at).getTime() < postedWithinCutoff(filters.postedWithin, now)) return false;
+  return true;
+};
+
+// How many listings each option of `facet` would leave, given the other active filters
+const facetCounts = (listings: Listing[], filters: FeedFilters, facet: Exclude<Facet, 'price'>, now = Date.now()): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  const bump = (key: string) => { if (key) counts[key] = (counts[key] ?? 0) + 1; };
+  for (const listing of listings) {
+    if (!matchesFeedFilters(listing, filters, now, facet)) continue;
+    switch (facet) {
+      case 'condition': bump(listing.condition ?? ''); break;
+      case 'size': bump(normalizeSize(listing.size)); break;
+      case 'gender': bump(listing.gender ?? ''); break;
+      case 'location': bump(listing.location); break;
+      case 'postedWithin': {
+        const created = new Date(listing.created_at).getTime();
+        POSTED_WITHIN_OPTIONS.forEach(o => { if (created >= postedWithinCutoff(o.value, now)) bump(o.value); });
+        break;
+      }
+    }
+  }
+  return counts;
+};
+
+// Every facet's option counts plus the number of matching listings, the shape
+// the `listing_facet_counts` function returns
+export interface FacetCounts {
+  total: number;
+  condition: Record<string, number>;
+  size: Record<string, number>;
+  gender: Record<string, number>;
+  location: Record<string, number>;
+  postedWithin: Record<string, number>;
+}
+
+export const countFacets = (listings: Listing[], filters: FeedFilters, now = Date.now()): FacetCounts => ({
+  total: listings.filter(listing => matchesFeedFilters(listing, filters, now)).length,
+  condition: facetCounts(listings, filters, 'condition', now),
+  size: facetCounts(listings, filters, 'size', now),
+  gender: facetCounts(listings, filters, 'gender', now),
+  location: facetCounts(listings, filters, 'location', now),
+  postedWithin: facetCounts(listings, filters, 'postedWithin', now)
+});
+
+const descending = (a: string, b: string) => a < b ? 1 : a > b ? -1 : 0;
+
+// Newest first, then id, the same tie-break as the paged feed query
+const byNewest = (a: Listing, b: Listing) => descending(a.created_at, b.created_at) || descending(a.id, b.id);
+
+export const compareListings = (sort: FeedSort) => (a: Listing, b: Listing): number => {
+  switch (sort) {
+    case 'newest': return byNewest(a, b);
+    case 'price_asc': return Number(a.price) - Number(b.price) || byNewest(a, b);
+    case 'price_desc': return Number(b.price) - Number(a.price) || byNewest(a, b);
+    case 'most_favorited': return (b.favorite_count ?? 0) - (a.favorite_count ?? 0) || byNewest(a, b);
+  }
+};
+
+export const sortListings = (listings: Listing[], sort: FeedSort): Listing[] =>
+  [...listings].sort(compareListings(sort));
+
+// A feed query as JSON, the form `listing_matches_filters` (0012) reads and
+// saved searches store. `sort` rides along for restoring a saved search.
+export interface FilterArgs {
+  category?: Category | null;
+  min_price?: number | null;
+  max_price?: number | null;
+  conditions?: string[];
+  sizes?: string[];
+  genders?: string[];
+  locations?: string[];
+  posted_within?: PostedWithin | null;
+  move_in?: string | null;
+  move_out?: string | null;
+  sort?: FeedSort | null;
+}
+
+export const toFilterArgs = (category: Category | null, filters: FeedFilters, leaseWindow?: LeaseWindow): FilterArgs => ({
+  category,
+  min_price: filters.minPrice,
+  max_price: filters.maxPrice,
+  conditions: filters.conditions,
+  sizes: filters.sizes,
+  genders: filters.genders,
+  locations: filters.locations,
+  posted_within: filters.postedWithin,
+  move_in: leaseWindow?.moveIn || null,
+  move_out: leaseWindow?.moveOut || null,
+  sort: filters.sort
+});
+
+export const fromFilterArgs = (args: FilterArgs): { category: Category | null; filters: FeedFilters; leaseWindow: LeaseWindow } => ({
+  category: args.category ?? null,
+  filters: {
+    minPrice: args.min_price ?? null,
+    maxPrice: args.max_price ?? null,
+    conditions: args.conditions ?? [],
+    sizes: args.sizes ?? [],
+    genders: args.genders ?? [],
+    locations: args.locations ?? [],
+    postedWithin: args.posted_within ?? null,
+    sort: args.sort ?? null
+  },
+  leaseWindow: { moveIn: args.move_in ?? '', moveOut: args.move_out ?? '' }
+});
+
+export const matchesFilterArgs = (listing: Listing, args: FilterArgs, now = Date.now()): boolean => {
+  const { category, filters, leaseWindow } = fromFilterArgs(args);
+  return listing.status !== 'sold'
+    && !isExpired(listing, now)
+    && (!category || listing.category === category)
+    && matchesFeedFilters(listing, filters, now)
+    && coversLeaseWindow(listing, leaseWindow);
+};
@@ -0,0 +1,19 @@
+import { Listing } from '../types';
+
+export interface LeaseWindow {
+  // ISO dates (YYYY-MM-DD); either may be empty
+  moveIn: string;
+  moveOut: string;
+}
+
+// A listing fits when its lease covers the whole requested stay
+export const coversLeaseWindow = (listing: Pick<Listing, 'lease_start' | 'lease_end'>, window: LeaseWindow): boolean => {
+  const { lease_start, lease_end } = listing;
+  if (window.moveIn && (!lease_start || !lease_end || lease_start > window.moveIn || lease_end < window.moveIn)) return false;
+  if (window.moveOut && (!lease_end || lease_end < window.moveOut)) return false;
+  return true;
+};
+
+// Lease dates are calendar dates, so format them without a timezone shift
+export const formatLeaseDate = (date?: string) =>
+  date ? new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' }) : 'Flexible';
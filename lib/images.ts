@@ -0,0 +1,17 @@
+import { Listing } from '../types';
+
+export const PLACEHOLDER_PHOTO = 'https://images.unsplash.com/photo-1515886657613-9f3515b0c78f?auto=format&fit=crop&q=80&w=400';
+
+export const thumbnailUrl = (listing: Pick<Listing, 'photos'>): string => listing.photos[0]?.url ?? PLACEHOLDER_PHOTO;
+
+// Pixel size of an image file, or nulls if the browser can't decode it
+export const readImageSize = async (file: Blob): Promise<{ width: number | null; height: number | null }> => {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const size = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return size;
+  } catch (e) {
+    return { width: null, height: null };
+  }
+};
@@ -0,0 +1,115 @@
+import { DependencyList, Dispatch, RefObject, SetStateAction, useCallback, useEffect, useRef, useState } from 'react';
+import { Cursor, Page } from './api';
+
+export interface PagedList<T> {
+  items: T[];
+  setItems: Dispatch<SetStateAction<T[]>>;
+  // First page in flight
+  loading: boolean;
+  loadingMore: boolean;
+  hasMore: boolean;
+  // The last loadMore failed; it won't retry on its own
+  loadMoreFailed: boolean;
+  loadMore: () => void;
+  // Starts over from the first page
+  reload: () => Promise<void>;
+}
+
+// Pages through `fetchPage` from the start whenever `deps` change. Responses
+// for an older set of deps are dropped, so a slow page can't land in a
+// newer list.
+export const usePagedList = <T extends { id: string }>(
+  fetchPage: (cursor: Cursor | null) => Promise<Page<T>>,
+  deps: DependencyList,
+  enabled = true
+): PagedList<T> => {
+  const [items, setItems] = useState<T[]>([]);
+  const [loading, setLoading] = useState(enabled);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadMoreFailed, setLoadMoreFailed] = useState(false);
+  const fetchRef = useRef(fetchPage);
+  fetchRef.current = fetchPage;
+  const generation = useRef(0);
+  const cursor = useRef<Cursor | null>(null);
+  const busy = useRef(false);
+
+  const reload = useCallback(async () => {
+    const run = ++generation.current;
+    busy.current = true;
+    setLoading(true);
+    setLoadMoreFailed(false);
+    try {
+      const page = await fetchRef.current(null);
+      if (run !== generation.current) return;
+      cursor.current = page.nextCursor;
+      setItems(page.items);
+      setHasMore(page.nextCursor !== null);
+    } catch (err: any) {
+      if (run === generation.current) console.error('Fetch error:', err.message);
+    } finally {
+      if (run === generation.current) {
+        busy.current = false;
+        setLoading(false);
+      }
+    }
+  }, []);
+
+  const loadMore = useCallback(async () => {
+    if (busy.current || cursor.current === null) return;
+    const run = generation.current;
+    busy.current = true;
+    setLoadingMore(true);
+    setLoadMoreFailed(false);
+    try {
+      const page = await fetchRef.current(cursor.current);
+      if (run !== generation.current) return;
+      cursor.current = page.nextCursor;
+      // A row moved by a realtime update may already be on screen
+      setItems(prev => [...prev, ...page.items.filter(item => !prev.some(p => p.id === item.id))]);
+      setHasMore(page.nextCursor !== null);
+    } catch (err: any) {
+      if (run !== generation.current) return;
+      console.error('Error loading more:', err.message);
+      setLoadMoreFailed(true);
+    } finally {
+      if (run === generation.current) {
+        busy.current = false;
+        setLoadingMore(false);
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) {
+      generation.current++;
+      busy.current = false;
+      setLoading(false);
+      return;
+    }
+    reload();
+  }, [enabled, ...deps]);
+
+  return { items, setItems, loading, loadingMore, hasMore, loadMoreFailed, loadMore, reload };
+};
+
+// Calls `onVisible` when the element given to the returned ref callback comes
+// within a screen of the bottom of `rootRef`, the scrolling container
+export const useLoadMoreSentinel = (onVisible: () => void, enabled: boolean, rootRef: RefObject<HTMLElement>) => {
+  const [node, setNode] = useState<HTMLElement | null>(null);
+  const callback = useRef(onVisible);
+  callback.current = onVisible;
+
+  useEffect(() => {
+    if (!node || !enabled) return;
+    // Recreated once each page lands, so a sentinel still in view keeps loading
+    const observer = new IntersectionObserver(
+      (entries) => { if (entries.some(entry => entry.isIntersecting)) callback.current(); },
+      { root: rootRef.current, rootMargin: '0px 0px 100% 0px' }
+    );
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [node, enabled]);
+
+  return setNode;
+};
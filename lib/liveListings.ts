@@ -0,0 +1,105 @@
+import { useEffect, useRef, useState } from 'react';
+import { ChangePayload, ListingQuery, matchesListingQuery, subscribeToChanges } from './api';
+import { Listing, ListingPhoto } from '../types';
+import { compareListings } from './feedFilters';
+import { PagedList } from './infiniteScroll';
+
+export interface LiveListings {
+  // Matching listings created since the feed loaded, held back so the grid
+  // doesn't shift under the user
+  pending: Listing[];
+  // Merges `pending` into the feed in sort order
+  showPending: () => void;
+}
+
+// Places `listing` in sort order. Rows that sort past the last loaded one are
+// left for the next page, unless the feed has no more pages.
+export const insertListing = (
+  items: Listing[],
+  listing: Listing,
+  compare: (a: Listing, b: Listing) => number,
+  hasMore: boolean
+): Listing[] => {
+  const rest = items.filter(item => item.id !== listing.id);
+  const index = rest.findIndex(item => compare(listing, item) < 0);
+  if (index === -1) return hasMore ? rest : [...rest, listing];
+  return [...rest.slice(0, index), listing, ...rest.slice(index)];
+};
+
+// Photos change one row per event: added after their listing row, and
+// reordered or removed when the seller edits it
+const applyPhotoChange = (items: Listing[], { eventType, new: photo, old }: ChangePayload<ListingPhoto>): Listing[] => {
+  const listingId = eventType === 'DELETE' ? old.listing_id : photo.listing_id;
+  return items.map((item) => {
+    if (item.id !== listingId) return item;
+    const rest = item.photos.filter(p => p.id !== (eventType === 'DELETE' ? old.id : photo.id));
+    const photos = eventType === 'DELETE' ? rest : [...rest, photo].sort((a, b) => a.position - b.position);
+    return { ...item, photos };
+  });
+};
+
+// Keeps a paged feed current from `postgres_changes` payloads instead of
+// refetching: updates patch rows in place (dropping ones that stop matching
+// `query`), deletes remove them, and inserts wait in `pending`. Photo changes
+// are applied to whichever listing holds them.
+export const useLiveListings = (channelName: string, feed: PagedList<Listing>, query: ListingQuery): LiveListings => {
+  const [pending, setPending] = useState<Listing[]>([]);
+  const latest = useRef({ feed, query, pending });
+  latest.current = { feed, query, pending };
+  const queryKey = JSON.stringify(query);
+
+  useEffect(() => {
+    setPending([]);
+  }, [queryKey]);
+
+  useEffect(() => {
+    const onListing = ({ eventType, new: row, old }: ChangePayload<Listing>) => {
+      const { feed, query } = latest.current;
+      switch (eventType) {
+        case 'INSERT': {
+          const listing = { ...row, photos: [] };
+          if (!matchesListingQuery(listing, query)) return;
+          setPending(prev => [listing, ...prev.filter(item => item.id !== listing.id)]);
+          break;
+        }
+        case 'UPDATE': {
+          // Patched where it stands; a changed sort key is picked up on the next load
+          const patch = (items: Listing[]) => items.flatMap((item) => {
+            if (item.id !== row.id) return [item];
+            const next = { ...item, ...row, photos: item.photos };
+            return matchesListingQuery(next, query) ? [next] : [];
+          });
+          feed.setItems(patch);
+          setPending(patch);
+          break;
+        }
+        case 'DELETE': {
+          const remove = (items: Listing[]) => items.filter(item => item.id !== old.id);
+          feed.setItems(remove);
+          setPending(remove);
+          break;
+        }
+      }
+    };
+
+    const onPhoto = (payload: ChangePayload<ListingPhoto>) => {
+      latest.current.feed.setItems(items => applyPhotoChange(items, payload));
+      setPending(items => applyPhotoChange(items, payload));
+    };
+
+    return subscribeToChanges(channelName, [
+      { event: '*', table: 'listings', onChange: onListing },
+      { event: '*', table: 'listing_photos', onChange: onPhoto }
+    ]);
+  }, [channelName]);
+
+  const showPending = () => {
+    const { feed, query, pending } = latest.current;
+    const compare = compareListings(query.filters?.sort ?? 'newest');
+    feed.setItems(items => pending.reduce((acc, listing) => insertListing(acc, listing, compare, feed.hasMore), items));
+    setPending([]);
+  };
+
+  // A listing created while the first page loaded may already be on screen
+  return { pending: pending.filter(listing => !feed.items.some(item => item.id === listing.id)), showPending };
+};
@@ -0,0 +1,76 @@
+// UTD pickup spots. Listings store the `name`; coordinates are approximate
+// building centres, only precise enough to place pins on the campus map.
+export interface CampusLocation {
+  id: string;
+  name: string;
+  // Short label for map pins
+  shortName: string;
+  lat: number;
+  lng: number;
+}
+
+export const CAMPUS_LOCATIONS: CampusLocation[] = [
+  { id: 'visitor-center', name: 'UTD Visitor Center', shortName: 'Visitor Ctr', lat: 32.98345, lng: -96.74555 },
+  { id: 'founders-north', name: 'Founders North Plaza', shortName: 'FN Plaza', lat: 32.98800, lng: -96.75000 },
+  { id: 'founders-south', name: 'Founders South Plaza', shortName: 'FS Plaza', lat: 32.98725, lng: -96.75040 },
+  { id: 'comets-landing', name: 'Comets Landing', shortName: 'Comets Landing', lat: 32.98880, lng: -96.74680 },
+  { id: 'alumni-center', name: 'Davidson-Gundy Alumni Center', shortName: 'Alumni Ctr', lat: 32.98390, lng: -96.74850 },
+  { id: 'administration', name: 'Administration Building', shortName: 'AD', lat: 32.98565, lng: -96.74870 },
+  { id: 'bioengineering', name: 'Bioengineering and Sciences Building', shortName: 'BSB', lat: 32.98565, lng: -96.75170 },
+  { id: 'callier', name: 'Callier Center Richardson', shortName: 'Callier', lat: 32.98930, lng: -96.75160 },
+  { id: 'activity-center', name: 'Activity Center', shortName: 'AC', lat: 32.98505, lng: -96.75320 },
+  { id: 'dining-hall-west', name: 'Dining Hall West', shortName: 'DHW', lat: 32.98800, lng: -96.75320 },
+  { id: 'sirius-hall', name: 'Sirius Hall', shortName: 'Sirius', lat: 32.98665, lng: -96.75300 },
+  { id: 'berkner-hall', name: 'Berkner Hall', shortName: 'BE', lat: 32.98880, lng: -96.74870 },
+  { id: 'green-hall', name: 'Cecil H. Green Hall', shortName: 'GR', lat: 32.98770, lng: -96.74820 },
+  { id: 'ecs', name: 'Engineering and Computer Science Buildings', shortName: 'ECS', lat: 32.98620, lng: -96.75080 },
+  { id: 'jindal', name: 'Naveen Jindal School of Management', shortName: 'JSOM', lat: 32.98470, lng: -96.74690 },
+  { id: 'library', name: 'McDermott Library', shortName: 'Library', lat: 32.98665, lng: -96.74760 },
+  { id: 'student-union', name: 'Student Union', shortName: 'SU', lat: 32.98700, lng: -96.74900 }
+];
+
+export const PICKUP_LOCATIONS = CAMPUS_LOCATIONS.map(location => location.name);
+
+export const findCampusLocation = (name?: string): CampusLocation | undefined =>
+  CAMPUS_LOCATIONS.find(location => location.name === name);
+
+// The area the bundled campus map covers, and its size in SVG units
+export const MAP_BOUNDS = { north: 32.9900, south: 32.9825, west: -96.7545, east: -96.7445 };
+export const MAP_SIZE = { width: 400, height: 360 };
+
+// Equirectangular is plenty over a few hundred metres
+export const projectToMap = ({ lat, lng }: Pick<CampusLocation, 'lat' | 'lng'>): { x: number; y: number } => ({
+  x: (lng - MAP_BOUNDS.west) / (MAP_BOUNDS.east - MAP_BOUNDS.west) * MAP_SIZE.width,
+  y: (MAP_BOUNDS.north - lat) / (MAP_BOUNDS.north - MAP_BOUNDS.south) * MAP_SIZE.height
+});
+
+export interface MapCluster {
+  locations: CampusLocation[];
+  count: number;
+  x: number;
+  y: number;
+}
+
+// Groups spots whose pins would overlap (within `radius` map units), placing
+// each group at its count-weighted centre. Spots with no listings are skipped.
+export const clusterLocations = (counts: Record<string, number>, radius = 24): MapCluster[] => {
+  const clusters: MapCluster[] = [];
+  const busiestFirst = CAMPUS_LOCATIONS
+    .filter(location => (counts[location.name] ?? 0) > 0)
+    .sort((a, b) => counts[b.name] - counts[a.name]);
+
+  for (const location of busiestFirst) {
+    const point = projectToMap(location);
+    const count = counts[location.name];
+    const near = clusters.find(cluster => Math.hypot(cluster.x - point.x, cluster.y - point.y) <= radius);
+    if (!near) {
+      clusters.push({ locations: [location], count, ...point });
+      continue;
+    }
+    near.x = (near.x * near.count + point.x * count) / (near.count + count);
+    near.y = (near.y * near.count + point.y * count) / (near.count + count);
+    near.count += count;
+    near.locations.push(location);
+  }
+  return clusters;
+};
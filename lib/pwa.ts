@@ -0,0 +1,27 @@
+import { useSyncExternalStore } from 'react';
+import { getQueuedActions, QueuedAction, subscribeToQueue } from './api';
+
+// Dev builds skip the worker so Vite's module reloading isn't served from cache
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((err) => {
+      console.error('Service worker registration failed:', err);
+    });
+  });
+};
+
+const subscribeToConnection = (onChange: () => void) => {
+  window.addEventListener('online', onChange);
+  window.addEventListener('offline', onChange);
+  return () => {
+    window.removeEventListener('online', onChange);
+    window.removeEventListener('offline', onChange);
+  };
+};
+
+export const useOnlineStatus = (): boolean =>
+  useSyncExternalStore(subscribeToConnection, () => navigator.onLine);
+
+export const useQueuedActions = (): QueuedAction[] =>
+  useSyncExternalStore(subscribeToQueue, getQueuedActions);
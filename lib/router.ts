@@ -0,0 +1,123 @@
+import { useMemo, useSyncExternalStore } from 'react';
+
+export type Route =
+  | { name: 'home' }
+  | { name: 'item'; id: string }
+  | { name: 'messages'; conversationId?: string }
+  | { name: 'sell'; category?: string }
+  | { name: 'edit'; id: string }
+  | { name: 'user'; username: string }
+  | { name: 'profile' };
+
+// Position in this tab's history, so "back" knows whether it would leave the app
+interface HistoryState {
+  idx: number;
+}
+
+const ROUTE_CHANGE = 'hucksta:routechange';
+
+export const parseRoute = (pathname: string): Route | null => {
+  let segments: string[];
+  try {
+    segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch (e) {
+    return null;
+  }
+  const [first, second, ...rest] = segments;
+  if (rest.length > 0) return null;
+
+  switch (first) {
+    case undefined:
+      return { name: 'home' };
+    case 'item':
+      return second ? { name: 'item', id: second } : null;
+    case 'messages':
+      return { name: 'messages', conversationId: second };
+    case 'sell':
+      return { name: 'sell', category: second };
+    case 'edit':
+      return second ? { name: 'edit', id: second } : null;
+    case 'u':
+      return second ? { name: 'user', username: second } : null;
+    case 'profile':
+      return second ? null : { name: 'profile' };
+    default:
+      return null;
+  }
+};
+
+export const routePath = (route: Route): string => {
+  const segment = (value?: string) => value ? `/${encodeURIComponent(value)}` : '';
+  switch (route.name) {
+    case 'home': return '/';
+    case 'item': return `/item${segment(route.id)}`;
+    case 'messages': return `/messages${segment(route.conversationId)}`;
+    case 'sell': return `/sell${segment(route.category)}`;
+    case 'edit': return `/edit${segment(route.id)}`;
+    case 'user': return `/u${segment(route.username)}`;
+    case 'profile': return '/profile';
+  }
+};
+
+const currentIdx = () => (window.history.state as HistoryState | null)?.idx ?? 0;
+
+// `search` sets the new entry's query string, e.g. to open the feed pre-filtered
+export const navigate = (route: Route, { replace = false, search }: { replace?: boolean; search?: URLSearchParams } = {}) => {
+  const pathname = routePath(route);
+  const query = search?.toString();
+  const path = query ? `${pathname}?${query}` : pathname;
+  // Without `search`, re-opening the current screen is a no-op that keeps its query string
+  const current = search ? `${window.location.pathname}${window.location.search}` : window.location.pathname;
+  if (!replace && (search ? path : pathname) === current) return;
+  const state: HistoryState = { idx: replace ? currentIdx() : currentIdx() + 1 };
+  if (replace) {
+    window.history.replaceState(state, '', path);
+  } else {
+    window.history.pushState(state, '', path);
+  }
+  window.dispatchEvent(new Event(ROUTE_CHANGE));
+};
+
+// Replaces the query string of the current entry, e.g. for filter state
+export const setSearchParams = (params: URLSearchParams) => {
+  const query = params.toString();
+  window.history.replaceState(window.history.state, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+  window.dispatchEvent(new Event(ROUTE_CHANGE));
+};
+
+// History back when there is an in-app page to return to, otherwise `fallback`
+export const goBack = (fallback: Route) => {
+  if (currentIdx() > 0) {
+    window.history.back();
+  } else {
+    navigate(fallback, { replace: true });
+  }
+};
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener('popstate', onChange);
+  window.addEventListener(ROUTE_CHANGE, onChange);
+  return () => {
+    window.removeEventListener('popstate', onChange);
+    window.removeEventListener(ROUTE_CHANGE, onChange);
+  };
+};
+
+const getPathname = () => window.location.pathname;
+const getSearch = () => window.location.search;
+
+// Current route; unknown paths are redirected to the home feed
+export const useRoute = (): Route => {
+  const pathname = useSyncExternalStore(subscribe, getPathname);
+  const route = parseRoute(pathname);
+  if (!route) {
+    queueMicrotask(() => navigate({ name: 'home' }, { replace: true }));
+    return { name: 'home' };
+  }
+  return route;
+};
+
+export const useSearchParams = (): URLSearchParams => {
+  const search = useSyncExternalStore(subscribe, getSearch);
+  return useMemo(() => new URLSearchParams(search), [search]);
+};
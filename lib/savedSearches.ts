@@ -0,0 +1,38 @@
+import { SavedSearch } from '../types';
+import { activeFilterCount, FilterArgs, fromFilterArgs, writeFeedFilters } from './feedFilters';
+
+type SearchDefinition = Pick<SavedSearch, 'query' | 'filters'>;
+
+// Marketplace query string for a saved search, e.g. ?q=mini+fridge&max=60
+export const savedSearchParams = ({ query, filters: args }: SearchDefinition): URLSearchParams => {
+  const { category, filters, leaseWindow } = fromFilterArgs(args);
+  const params = writeFeedFilters(new URLSearchParams(), filters);
+  if (query.trim()) params.set('q', query.trim());
+  if (category) params.set('category', category.toLowerCase());
+  if (leaseWindow.moveIn) params.set('move_in', leaseWindow.moveIn);
+  if (leaseWindow.moveOut) params.set('move_out', leaseWindow.moveOut);
+  params.sort();
+  return params;
+};
+
+// Whether two definitions would run the same query
+export const isSameSearch = (a: SearchDefinition, b: SearchDefinition) =>
+  savedSearchParams(a).toString() === savedSearchParams(b).toString();
+
+export const defaultSearchName = ({ query, filters }: { query: string; filters: FilterArgs }) =>
+  (query.trim() || (filters.category ? `New in ${filters.category}` : 'New listings')).slice(0, 60);
+
+// One-line summary for the manager, e.g. "Furniture · Under $60 · 2 filters"
+export const describeSavedSearch = ({ query, filters: args }: SearchDefinition): string => {
+  const { category, filters, leaseWindow } = fromFilterArgs(args);
+  const parts: string[] = [];
+  if (query.trim()) parts.push(`"${query.trim()}"`);
+  parts.push(category ?? 'All categories');
+  if (filters.minPrice != null && filters.maxPrice != null) parts.push(`$${filters.minPrice}–$${filters.maxPrice}`);
+  else if (filters.maxPrice != null) parts.push(`Under $${filters.maxPrice}`);
+  else if (filters.minPrice != null) parts.push(`$${filters.minPrice}+`);
+  const otherFilters = activeFilterCount({ ...filters, minPrice: null, maxPrice: null })
+    + (leaseWindow.moveIn ? 1 : 0) + (leaseWindow.moveOut ? 1 : 0);
+  if (otherFilters > 0) parts.push(`${otherFilters} ${otherFilters === 1 ? 'filter' : 'filters'}`);
+  return parts.join(' · ');
+};
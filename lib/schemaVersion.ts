@@ -0,0 +1,3 @@
+// Highest migration in migrations/ the client is written against.
+// Bump alongside every new migration file.
+export const SCHEMA_VERSION = 23;
@@ -0,0 +1,57 @@
+// Query helpers shared by search highlighting and the memory backend's
+// stand-in for the `search_listings` Postgres function.
+
+// Lowercase alphanumeric terms, matching `listing_search_query` in SQL
+export const searchTerms = (query: string): string[] =>
+  query.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export interface TextSegment {
+  text: string;
+  match: boolean;
+}
+
+// Splits `text` so word prefixes matching any term can be highlighted
+export const highlightSegments = (text: string, terms: string[]): TextSegment[] => {
+  if (!text || terms.length === 0) return [{ text, match: false }];
+  const alternatives = [...new Set(terms)].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+  const pattern = new RegExp(`(?<![a-z0-9])(?:${alternatives})`, 'gi');
+  const segments: TextSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    if (match.index! > last) segments.push({ text: text.slice(last, match.index), match: false });
+    segments.push({ text: match[0], match: true });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), match: false });
+  return segments;
+};
+
+// pg_trgm style trigrams: each word padded with two leading and one trailing space
+const trigrams = (words: string[]): Set<string> => {
+  const result = new Set<string>();
+  for (const word of words) {
+    const padded = `  ${word} `;
+    for (let i = 0; i < padded.length - 2; i++) result.add(padded.slice(i, i + 3));
+  }
+  return result;
+};
+
+// Approximates pg_trgm's word_similarity(query, text): the best trigram
+// overlap between the query and any run of consecutive words in the text
+export const wordSimilarity = (query: string, text: string): number => {
+  const queryWords = searchTerms(query);
+  const textWords = searchTerms(text);
+  if (queryWords.length === 0 || textWords.length === 0) return 0;
+  const wanted = trigrams(queryWords);
+  let best = 0;
+  for (let start = 0; start < textWords.length; start++) {
+    for (let end = start + 1; end <= Math.min(textWords.length, start + queryWords.length + 1); end++) {
+      const window = trigrams(textWords.slice(start, end));
+      const shared = [...wanted].filter(t => window.has(t)).length;
+      best = Math.max(best, shared / (wanted.size + window.size - shared));
+    }
+  }
+  return best;
+};
@@ -0,0 +1,102 @@
+import { Listing } from '../types';
+import { compareListings, normalizeSize } from './feedFilters';
+import { searchTerms } from './search';
+import { findCampusLocation } from './locations';
+import { isExpired } from './expiry';
+
+// Words that say nothing about what the item is
+const STOP_WORDS = new Set(['a', 'an', 'and', 'for', 'in', 'of', 'on', 'the', 'to', 'with', 'new', 'used', 'like', 'great', 'good', 'condition']);
+
+// Points for a full match on each signal; keyword overlap and price band
+// earn a share of theirs
+export const SIMILARITY_WEIGHTS = {
+  category: 3,
+  brand: 3,
+  size: 2,
+  priceBand: 2,
+  keywords: 4,
+  location: 1
+};
+
+// Candidates below this are left out rather than padding the rail
+export const MIN_SIMILARITY = 2;
+
+// Walking distance in metres that still counts as "nearby"
+const NEARBY_METRES = 250;
+
+const keywords = (listing: Listing): Set<string> =>
+  new Set(searchTerms(`${listing.title} ${listing.brand ?? ''}`).filter(word => word.length > 1 && !STOP_WORDS.has(word)));
+
+const sameText = (a?: string, b?: string) =>
+  !!a?.trim() && a.trim().toLowerCase() === b?.trim().toLowerCase();
+
+// Full points within 25% of the price, half within 50%; free matches free
+const priceBandScore = (a: number, b: number): number => {
+  if (a === 0 || b === 0) return a === b ? 1 : 0;
+  const ratio = Math.min(a, b) / Math.max(a, b);
+  if (ratio >= 0.75) return 1;
+  if (ratio >= 0.5) return 0.5;
+  return 0;
+};
+
+const metresApart = (a: string, b: string): number | null => {
+  const from = findCampusLocation(a);
+  const to = findCampusLocation(b);
+  if (!from || !to) return null;
+  const dLat = (from.lat - to.lat) * 111_320;
+  const dLng = (from.lng - to.lng) * 111_320 * Math.cos(from.lat * Math.PI / 180);
+  return Math.hypot(dLat, dLng);
+};
+
+// Same spot scores full points, a short walk half
+const locationScore = (a: string, b: string): number => {
+  if (sameText(a, b)) return 1;
+  const distance = metresApart(a, b);
+  return distance !== null && distance <= NEARBY_METRES ? 0.5 : 0;
+};
+
+// How alike `candidate` is to `target`. Pure and deterministic: the same
+// pair always scores the same, whatever else is in the pool.
+export const similarityScore = (target: Listing, candidate: Listing): number => {
+  const w = SIMILARITY_WEIGHTS;
+  let score = 0;
+  if (target.category === candidate.category) score += w.category;
+  if (sameText(target.brand, candidate.brand)) score += w.brand;
+  if (normalizeSize(target.size) && normalizeSize(target.size) === normalizeSize(candidate.size)) score += w.size;
+  score += w.priceBand * priceBandScore(target.price, candidate.price);
+
+  const wanted = keywords(target);
+  const offered = keywords(candidate);
+  const shared = [...wanted].filter(word => offered.has(word)).length;
+  const union = wanted.size + offered.size - shared;
+  if (union > 0) score += w.keywords * shared / union;
+
+  score += w.location * locationScore(target.location, candidate.location);
+  // Rounded so float noise can't reorder equal matches
+  return Math.round(score * 1000) / 1000;
+};
+
+interface RankOptions {
+  // The viewer; their own listings are never recommended to them
+  viewerId?: string;
+  limit?: number;
+}
+
+// Best matches first; equal scores fall back to newest first, then id. Sold
+// and expired listings, the viewer's own and the target itself are never
+// recommended.
+export const rankSimilarListings = (target: Listing, candidates: Listing[], { viewerId, limit = 10 }: RankOptions = {}): Listing[] => {
+  const newest = compareListings('newest');
+  const seen = new Set<string>([target.id]);
+  return candidates
+    .filter(candidate => {
+      if (seen.has(candidate.id) || candidate.status === 'sold' || isExpired(candidate) || (viewerId && candidate.seller_id === viewerId)) return false;
+      seen.add(candidate.id);
+      return true;
+    })
+    .map(listing => ({ listing, score: similarityScore(target, listing) }))
+    .filter(({ score }) => score >= MIN_SIMILARITY)
+    .sort((a, b) => b.score - a.score || newest(a.listing, b.listing))
+    .map(({ listing }) => listing)
+    .slice(0, limit);
+};
@@ -0,0 +1,40 @@
+const digitsOf = (value: string) => value.replace(/[\s-]/g, '').toUpperCase();
+
+const isValidIsbn10 = (isbn: string) => {
+  if (!/^\d{9}[\dX]$/.test(isbn)) return false;
+  const sum = isbn.split('').reduce((acc, char, i) => acc + (char === 'X' ? 10 : Number(char)) * (10 - i), 0);
+  return sum % 11 === 0;
+};
+
+const isbn13CheckDigit = (first12: string) => {
+  const sum = first12.split('').reduce((acc, char, i) => acc + Number(char) * (i % 2 === 0 ? 1 : 3), 0);
+  return String((10 - (sum % 10)) % 10);
+};
+
+const isValidIsbn13 = (isbn: string) =>
+  /^97[89]\d{10}$/.test(isbn) && isbn13CheckDigit(isbn.slice(0, 12)) === isbn[12];
+
+export const isValidIsbn = (value: string): boolean => {
+  const isbn = digitsOf(value);
+  return isbn.length === 10 ? isValidIsbn10(isbn) : isValidIsbn13(isbn);
+};
+
+// Canonical ISBN-13 without separators, so ISBN-10 and ISBN-13 input for
+// the same book compare equal. Returns null for anything that fails its checksum.
+export const normalizeIsbn = (value: string): string | null => {
+  const isbn = digitsOf(value);
+  if (isbn.length === 13) return isValidIsbn13(isbn) ? isbn : null;
+  if (isbn.length === 10 && isValidIsbn10(isbn)) {
+    const first12 = `978${isbn.slice(0, 9)}`;
+    return first12 + isbn13CheckDigit(first12);
+  }
+  return null;
+};
+
+const COURSE_CODE_PATTERN = /^([A-Za-z]{2,4})\s*-?\s*(\d{4})$/;
+
+// "cs3345", "CS-3345" and "cs 3345" all become "CS 3345"
+export const normalizeCourseCode = (value: string): string | null => {
+  const match = COURSE_CODE_PATTERN.exec(value.trim());
+  return match ? `${match[1].toUpperCase()} ${match[2]}` : null;
+};
@@ -0,0 +1,28 @@
+// Scoring behind the Trending rail; `trending_listings` in
+// 0014_listing_views.sql computes the same thing in SQL.
+
+export type ActivityKind = 'view' | 'favorite' | 'conversation';
+
+// A conversation says more about intent than a save, and a save more than a look
+export const TRENDING_WEIGHTS: Record<ActivityKind, number> = {
+  view: 1,
+  favorite: 3,
+  conversation: 5
+};
+
+export const TRENDING_HALF_LIFE_HOURS = 48;
+export const TRENDING_WINDOW_DAYS = 14;
+
+export interface ListingActivity {
+  kind: ActivityKind;
+  created_at: string;
+}
+
+// Sum of each event's weight, halved for every half-life of age. Events older
+// than the window count for nothing.
+export const trendingScore = (events: ListingActivity[], now = Date.now()): number =>
+  events.reduce((score, event) => {
+    const ageHours = Math.max(0, now - new Date(event.created_at).getTime()) / 3_600_000;
+    if (ageHours > TRENDING_WINDOW_DAYS * 24) return score;
+    return score + TRENDING_WEIGHTS[event.kind] * Math.pow(0.5, ageHours / TRENDING_HALF_LIFE_HOURS);
+  }, 0);
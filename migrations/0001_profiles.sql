@@ -0,0 +1,20 @@
+-- Public profile for every auth user. Rows are provisioned by the client on
+-- first sign-in (see ensureProfile in lib/api/profiles.ts).
+create table if not exists public.profiles (
+  id uuid references auth.users(id) on delete cascade primary key,
+  full_name text,
+  username text,
+  avatar_url text,
+  updated_at timestamp with time zone default timezone('utc'::text, now())
+);
+
+create unique index if not exists profiles_username_key on public.profiles (username);
+
+alter table public.profiles enable row level security;
+
+drop policy if exists "Profiles are viewable by everyone" on public.profiles;
+drop policy if exists "Users can manage own profile" on public.profiles;
+
+create policy "Profiles are viewable by everyone" on public.profiles for select using (true);
+-- Unified ALL policy so upsert works for insert and update
+create policy "Users can manage own profile" on public.profiles for all using (auth.uid() = id) with check (auth.uid() = id);
@@ -0,0 +1,32 @@
+create table if not exists public.listings (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  seller_id uuid not null references auth.users(id) on delete cascade,
+  title text not null,
+  brand text,
+  size text,
+  gender text check (gender in ('Mens', 'Womens', 'Unisex')),
+  price numeric(10, 2) not null check (price >= 0),
+  condition text not null,
+  category text not null,
+  location text not null,
+  description text,
+  -- A single URL or a JSON array of URLs
+  image_url text
+);
+
+create index if not exists listings_created_at_idx on public.listings (created_at desc);
+create index if not exists listings_seller_id_idx on public.listings (seller_id, created_at desc);
+create index if not exists listings_category_idx on public.listings (category, created_at desc);
+
+alter table public.listings enable row level security;
+
+drop policy if exists "Listings are viewable by everyone" on public.listings;
+drop policy if exists "Users create own listings" on public.listings;
+drop policy if exists "Users update own listings" on public.listings;
+drop policy if exists "Users delete own listings" on public.listings;
+
+create policy "Listings are viewable by everyone" on public.listings for select using (true);
+create policy "Users create own listings" on public.listings for insert with check (auth.uid() = seller_id);
+create policy "Users update own listings" on public.listings for update using (auth.uid() = seller_id) with check (auth.uid() = seller_id);
+create policy "Users delete own listings" on public.listings for delete using (auth.uid() = seller_id);
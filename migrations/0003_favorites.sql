@@ -0,0 +1,19 @@
+create table if not exists public.favorites (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  listing_id uuid not null references public.listings(id) on delete cascade,
+  unique (user_id, listing_id)
+);
+
+create index if not exists favorites_listing_id_idx on public.favorites (listing_id);
+
+alter table public.favorites enable row level security;
+
+drop policy if exists "Users see own favorites" on public.favorites;
+drop policy if exists "Users add own favorites" on public.favorites;
+drop policy if exists "Users remove own favorites" on public.favorites;
+
+create policy "Users see own favorites" on public.favorites for select using (auth.uid() = user_id);
+create policy "Users add own favorites" on public.favorites for insert with check (auth.uid() = user_id);
+create policy "Users remove own favorites" on public.favorites for delete using (auth.uid() = user_id);
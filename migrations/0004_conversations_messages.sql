@@ -0,0 +1,36 @@
+create table if not exists public.conversations (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  listing_id uuid references public.listings(id) on delete cascade,
+  buyer_id uuid not null,
+  seller_id uuid not null
+);
+
+create index if not exists conversations_buyer_id_idx on public.conversations (buyer_id);
+create index if not exists conversations_seller_id_idx on public.conversations (seller_id);
+
+create table if not exists public.messages (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  conversation_id uuid references public.conversations(id) on delete cascade,
+  sender_id uuid not null,
+  text text not null
+);
+
+create index if not exists messages_conversation_id_idx on public.messages (conversation_id, created_at);
+
+alter table public.conversations enable row level security;
+alter table public.messages enable row level security;
+
+drop policy if exists "Users see conversations" on public.conversations;
+drop policy if exists "Users start conversations" on public.conversations;
+drop policy if exists "Users see messages" on public.messages;
+drop policy if exists "Users send messages" on public.messages;
+
+create policy "Users see conversations" on public.conversations for select using (auth.uid() = buyer_id or auth.uid() = seller_id);
+create policy "Users start conversations" on public.conversations for insert with check (auth.uid() = buyer_id);
+create policy "Users see messages" on public.messages for select using (exists (select 1 from public.conversations where id = conversation_id and (buyer_id = auth.uid() or seller_id = auth.uid())));
+create policy "Users send messages" on public.messages for insert with check (
+  auth.uid() = sender_id
+  and exists (select 1 from public.conversations where id = conversation_id and (buyer_id = auth.uid() or seller_id = auth.uid()))
+);
@@ -0,0 +1,29 @@
+-- Public buckets for listing photos and avatars. Object names are prefixed
+-- with the uploader's user id (see lib/api/storage.ts), which the write
+-- policies rely on.
+insert into storage.buckets (id, name, public)
+values ('listings', 'listings', true), ('avatars', 'avatars', true)
+on conflict (id) do update set public = excluded.public;
+
+drop policy if exists "Listing photos are public" on storage.objects;
+drop policy if exists "Users upload own listing photos" on storage.objects;
+drop policy if exists "Users delete own listing photos" on storage.objects;
+
+create policy "Listing photos are public" on storage.objects for select using (bucket_id = 'listings');
+create policy "Users upload own listing photos" on storage.objects for insert to authenticated
+  with check (bucket_id = 'listings' and name like auth.uid()::text || '-%');
+create policy "Users delete own listing photos" on storage.objects for delete to authenticated
+  using (bucket_id = 'listings' and name like auth.uid()::text || '-%');
+
+drop policy if exists "Avatars are public" on storage.objects;
+drop policy if exists "Users upload own avatar" on storage.objects;
+drop policy if exists "Users replace own avatar" on storage.objects;
+drop policy if exists "Users delete own avatar" on storage.objects;
+
+create policy "Avatars are public" on storage.objects for select using (bucket_id = 'avatars');
+create policy "Users upload own avatar" on storage.objects for insert to authenticated
+  with check (bucket_id = 'avatars' and name like auth.uid()::text || '-%');
+create policy "Users replace own avatar" on storage.objects for update to authenticated
+  using (bucket_id = 'avatars' and name like auth.uid()::text || '-%');
+create policy "Users delete own avatar" on storage.objects for delete to authenticated
+  using (bucket_id = 'avatars' and name like auth.uid()::text || '-%');
@@ -0,0 +1,6 @@
+-- Tables the client subscribes to through `postgres_changes`
+alter publication supabase_realtime add table public.listings, public.favorites, public.profiles, public.conversations, public.messages;
+
+-- Deletes carry the full old row so filtered channels (seller_id=eq.…) still match
+alter table public.listings replica identity full;
+alter table public.favorites replica identity full;
@@ -0,0 +1,42 @@
+-- Ordered photos per listing, replacing the JSON-in-a-string image_url column
+create table if not exists public.listing_photos (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  listing_id uuid not null references public.listings(id) on delete cascade,
+  position smallint not null check (position >= 0),
+  url text not null,
+  -- Object name inside the listings bucket; null for externally hosted images
+  storage_path text,
+  width integer check (width > 0),
+  height integer check (height > 0),
+  -- Deferred so a reorder can swap positions inside one transaction
+  constraint listing_photos_position_key unique (listing_id, position) deferrable initially deferred
+);
+
+alter table public.listing_photos enable row level security;
+
+drop policy if exists "Listing photos are viewable by everyone" on public.listing_photos;
+drop policy if exists "Sellers manage own listing photos" on public.listing_photos;
+
+create policy "Listing photos are viewable by everyone" on public.listing_photos for select using (true);
+create policy "Sellers manage own listing photos" on public.listing_photos for all
+  using (exists (select 1 from public.listings where id = listing_id and seller_id = auth.uid()))
+  with check (exists (select 1 from public.listings where id = listing_id and seller_id = auth.uid()));
+
+-- Convert existing rows: image_url held either one URL or a JSON array of URLs
+insert into public.listing_photos (listing_id, position, url, storage_path)
+select
+  l.id,
+  p.ordinality - 1,
+  p.url,
+  substring(p.url from '/storage/v1/object/public/listings/(.+)$')
+from public.listings l
+cross join lateral jsonb_array_elements_text(
+  case when l.image_url like '[%]' then l.image_url::jsonb else jsonb_build_array(l.image_url) end
+) with ordinality as p(url, ordinality)
+where coalesce(l.image_url, '') <> '';
+
+alter table public.listings drop column image_url;
+
+alter publication supabase_realtime add table public.listing_photos;
+alter table public.listing_photos replica identity full;
@@ -0,0 +1,10 @@
+-- Textbooks category. isbn is stored as a canonical ISBN-13 and course_code
+-- as "DEPT 1234" (see lib/textbooks.ts) so search can match them exactly.
+alter table public.listings
+  add column if not exists isbn text check (isbn ~ '^97[89][0-9]{10}$'),
+  add column if not exists course_code text check (course_code ~ '^[A-Z]{2,4} [0-9]{4}$'),
+  add column if not exists edition text,
+  add column if not exists access_code_included boolean;
+
+create index if not exists listings_isbn_idx on public.listings (isbn) where isbn is not null;
+create index if not exists listings_course_code_idx on public.listings (course_code) where course_code is not null;
@@ -0,0 +1,14 @@
+-- Housing / sublease listings. `price` holds the monthly rent for these rows.
+alter table public.listings
+  add column if not exists lease_start date,
+  add column if not exists lease_end date,
+  add column if not exists bedrooms smallint check (bedrooms >= 0),
+  add column if not exists bathrooms numeric(3, 1) check (bathrooms >= 0),
+  add column if not exists furnished boolean,
+  add column if not exists roommate_gender text check (roommate_gender in ('Any', 'Female', 'Male')),
+  add constraint listings_lease_range_check check (lease_end is null or lease_start is null or lease_end >= lease_start);
+
+-- Condition doesn't apply to housing
+alter table public.listings alter column condition drop not null;
+
+create index if not exists listings_lease_idx on public.listings (lease_start, lease_end) where category = 'Housing';
@@ -0,0 +1,65 @@
+-- Full-text search over listings. The document is an expression index rather
+-- than a stored column so `select *` on listings doesn't ship tsvectors.
+-- Weights: title A, brand / course code / ISBN B, description C, location D.
+create extension if not exists pg_trgm;
+
+create or replace function public.listing_search_vector(
+  title text, brand text, course_code text, isbn text, description text, location text
+) returns tsvector
+language sql immutable parallel safe
+as $$
+  select setweight(to_tsvector('pg_catalog.english', coalesce(title, '')), 'A')
+    || setweight(to_tsvector('pg_catalog.english', coalesce(brand, '')), 'B')
+    || setweight(to_tsvector('pg_catalog.simple', coalesce(course_code, '') || ' ' || coalesce(isbn, '')), 'B')
+    || setweight(to_tsvector('pg_catalog.english', coalesce(description, '')), 'C')
+    || setweight(to_tsvector('pg_catalog.english', coalesce(location, '')), 'D');
+$$;
+
+-- Short text the typo-tolerant trigram match runs against
+create or replace function public.listing_search_text(title text, brand text, location text)
+returns text
+language sql immutable parallel safe
+as $$
+  select lower(coalesce(title, '') || ' ' || coalesce(brand, '') || ' ' || coalesce(location, ''));
+$$;
+
+-- "nike air" -> 'nike':* & 'air':*
+create or replace function public.listing_search_query(query text)
+returns tsquery
+language sql immutable parallel safe
+as $$
+  select to_tsquery('pg_catalog.english', string_agg(term || ':*', ' & '))
+  from unnest(regexp_split_to_array(lower(query), '[^a-z0-9]+')) as term
+  where term <> '';
+$$;
+
+create index if not exists listings_search_idx on public.listings
+  using gin (public.listing_search_vector(title, brand, course_code, isbn, description, location));
+
+create index if not exists listings_search_trgm_idx on public.listings
+  using gin (public.listing_search_text(title, brand, location) gin_trgm_ops);
+
+-- Prefix matches on the weighted document, plus trigram word similarity so a
+-- typo like "nikee" still finds Nike. Ranked by both, newest first on ties.
+create or replace function public.search_listings(query text, result_limit integer default 60)
+returns setof public.listings
+language sql stable
+set search_path = public, extensions
+set pg_trgm.word_similarity_threshold = 0.5
+as $$
+  with q as (
+    select public.listing_search_query(query) as tsq, lower(trim(query)) as raw
+  )
+  select l.*
+  from public.listings l, q
+  where (q.tsq is not null
+      and public.listing_search_vector(l.title, l.brand, l.course_code, l.isbn, l.description, l.location) @@ q.tsq)
+    or q.raw <% public.listing_search_text(l.title, l.brand, l.location)
+  order by
+    coalesce(ts_rank_cd(public.listing_search_vector(l.title, l.brand, l.course_code, l.isbn, l.description, l.location), q.tsq), 0)
+      + word_similarity(q.raw, public.listing_search_text(l.title, l.brand, l.location)) desc,
+    l.created_at desc
+  limit least(greatest(result_limit, 1), 200);
+$$;
+
+grant execute on function public.search_listings(text, integer) to anon, authenticated;
@@ -0,0 +1,29 @@
+-- Favorites are only readable by their owner, so the feed's "most favorited"
+-- sort reads a count kept on the listing by trigger.
+alter table public.listings add column if not exists favorite_count integer not null default 0;
+
+update public.listings l
+set favorite_count = (select count(*) from public.favorites f where f.listing_id = l.id);
+
+-- security definer: the favoriting user can't otherwise update someone else's listing
+create or replace function public.sync_favorite_count()
+returns trigger
+language plpgsql security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    update public.listings set favorite_count = favorite_count + 1 where id = new.listing_id;
+  elsif tg_op = 'DELETE' then
+    update public.listings set favorite_count = greatest(favorite_count - 1, 0) where id = old.listing_id;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists favorites_sync_count on public.favorites;
+create trigger favorites_sync_count
+  after insert or delete on public.favorites
+  for each row execute function public.sync_favorite_count();
+
+create index if not exists listings_favorite_count_idx on public.listings (favorite_count desc, created_at desc);
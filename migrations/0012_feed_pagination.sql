@@ -0,0 +1,103 @@
+-- The feed pages with keyset cursors on (created_at, id), so every sort ends
+-- on that pair. These indexes replace the created_at-only ones from 0002.
+drop index if exists public.listings_created_at_idx;
+drop index if exists public.listings_seller_id_idx;
+drop index if exists public.listings_category_idx;
+drop index if exists public.listings_favorite_count_idx;
+
+create index if not exists listings_feed_idx on public.listings (created_at desc, id desc);
+create index if not exists listings_seller_feed_idx on public.listings (seller_id, created_at desc, id desc);
+create index if not exists listings_category_feed_idx on public.listings (category, created_at desc, id desc);
+create index if not exists listings_category_price_idx on public.listings (category, price, created_at desc, id desc);
+create index if not exists listings_category_favorite_count_idx on public.listings (category, favorite_count desc, created_at desc, id desc);
+create index if not exists favorites_user_feed_idx on public.favorites (user_id, created_at desc, id desc);
+
+-- The filter sheet's rules, as the client applies them in lib/api/listings.ts.
+-- `filters` keys: category, min_price, max_price, conditions, sizes, genders,
+-- locations, posted_within ('24h' | '7d' | '30d'), move_in, move_out.
+-- `except_facet` skips one facet so its options can be counted against the rest.
+create or replace function public.listing_matches_filters(l public.listings, filters jsonb, except_facet text default null)
+returns boolean
+language sql stable
+as $$
+  select (filters->>'category' is null or l.category = filters->>'category')
+    and (except_facet is not distinct from 'price'
+      or ((filters->>'min_price' is null or l.price >= (filters->>'min_price')::numeric)
+        and (filters->>'max_price' is null or l.price <= (filters->>'max_price')::numeric)))
+    and (except_facet is not distinct from 'condition'
+      or coalesce(jsonb_array_length(filters->'conditions'), 0) = 0
+      or l.condition in (select jsonb_array_elements_text(filters->'conditions')))
+    and (except_facet is not distinct from 'size'
+      or coalesce(jsonb_array_length(filters->'sizes'), 0) = 0
+      or upper(trim(l.size)) in (select upper(jsonb_array_elements_text(filters->'sizes'))))
+    and (except_facet is not distinct from 'gender'
+      or coalesce(jsonb_array_length(filters->'genders'), 0) = 0
+      or l.gender in (select jsonb_array_elements_text(filters->'genders')))
+    and (except_facet is not distinct from 'location'
+      or coalesce(jsonb_array_length(filters->'locations'), 0) = 0
+      or l.location in (select jsonb_array_elements_text(filters->'locations')))
+    and (except_facet is not distinct from 'postedWithin'
+      or filters->>'posted_within' is null
+      or l.created_at >= now() - case filters->>'posted_within'
+        when '24h' then interval '24 hours'
+        when '7d' then interval '7 days'
+        else interval '30 days'
+      end)
+    and (filters->>'move_in' is null
+      or (l.lease_start <= (filters->>'move_in')::date and l.lease_end >= (filters->>'move_in')::date))
+    and (filters->>'move_out' is null or l.lease_end >= (filters->>'move_out')::date);
+$$;
+
+-- Counts for every option in the filter sheet, over all matching listings
+-- rather than the pages a client has loaded. Same shape as `FacetCounts`.
+create or replace function public.listing_facet_counts(filters jsonb default '{}'::jsonb)
+returns jsonb
+language sql stable
+as $$
+  select jsonb_build_object(
+    'total', (
+      select count(*) from public.listings l
+      where public.listing_matches_filters(l, filters)
+    ),
+    'condition', (
+      select coalesce(jsonb_object_agg(value, n), '{}'::jsonb) from (
+        select l.condition as value, count(*) as n from public.listings l
+        where l.condition is not null and public.listing_matches_filters(l, filters, 'condition')
+        group by 1
+      ) counts
+    ),
+    'size', (
+      select coalesce(jsonb_object_agg(value, n), '{}'::jsonb) from (
+        select upper(trim(l.size)) as value, count(*) as n from public.listings l
+        where coalesce(trim(l.size), '') <> '' and public.listing_matches_filters(l, filters, 'size')
+        group by 1
+      ) counts
+    ),
+    'gender', (
+      select coalesce(jsonb_object_agg(value, n), '{}'::jsonb) from (
+        select l.gender as value, count(*) as n from public.listings l
+        where l.gender is not null and public.listing_matches_filters(l, filters, 'gender')
+        group by 1
+      ) counts
+    ),
+    'location', (
+      select coalesce(jsonb_object_agg(value, n), '{}'::jsonb) from (
+        select l.location as value, count(*) as n from public.listings l
+        where coalesce(l.location, '') <> '' and public.listing_matches_filters(l, filters, 'location')
+        group by 1
+      ) counts
+    ),
+    'postedWithin', (
+      select jsonb_build_object(
+        '24h', count(*) filter (where l.created_at >= now() - interval '24 hours'),
+        '7d', count(*) filter (where l.created_at >= now() - interval '7 days'),
+        '30d', count(*) filter (where l.created_at >= now() - interval '30 days')
+      )
+      from public.listings l
+      where public.listing_matches_filters(l, filters, 'postedWithin')
+    )
+  );
+$$;
+
+grant execute on function public.listing_matches_filters(public.listings, jsonb, text) to anon, authenticated;
+grant execute on function public.listing_facet_counts(jsonb) to anon, authenticated;
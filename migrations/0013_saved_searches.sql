@@ -0,0 +1,90 @@
+-- Saved Marketplace queries. `filters` holds the JSON form of the feed filters
+-- (category, price, condition, …) that listing_matches_filters (0012) reads.
+create table if not exists public.saved_searches (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 60),
+  query text not null default '',
+  filters jsonb not null default '{}'::jsonb,
+  paused boolean not null default false
+);
+
+create index if not exists saved_searches_user_id_idx on public.saved_searches (user_id, created_at desc);
+
+alter table public.saved_searches enable row level security;
+
+drop policy if exists "Users see own saved searches" on public.saved_searches;
+drop policy if exists "Users add own saved searches" on public.saved_searches;
+drop policy if exists "Users edit own saved searches" on public.saved_searches;
+drop policy if exists "Users remove own saved searches" on public.saved_searches;
+
+create policy "Users see own saved searches" on public.saved_searches for select using (auth.uid() = user_id);
+create policy "Users add own saved searches" on public.saved_searches for insert with check (auth.uid() = user_id);
+create policy "Users edit own saved searches" on public.saved_searches for update using (auth.uid() = user_id);
+create policy "Users remove own saved searches" on public.saved_searches for delete using (auth.uid() = user_id);
+
+-- In-app notifications. Rows are written by triggers only; users read them and
+-- mark them read.
+create table if not exists public.notifications (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  kind text not null check (kind in ('saved_search')),
+  listing_id uuid references public.listings(id) on delete cascade,
+  saved_search_id uuid references public.saved_searches(id) on delete cascade,
+  read_at timestamp with time zone
+);
+
+create index if not exists notifications_user_id_idx on public.notifications (user_id, created_at desc);
+create index if not exists notifications_unread_idx on public.notifications (user_id) where read_at is null;
+
+alter table public.notifications enable row level security;
+
+drop policy if exists "Users see own notifications" on public.notifications;
+drop policy if exists "Users mark own notifications read" on public.notifications;
+drop policy if exists "Users clear own notifications" on public.notifications;
+
+create policy "Users see own notifications" on public.notifications for select using (auth.uid() = user_id);
+create policy "Users mark own notifications read" on public.notifications for update using (auth.uid() = user_id);
+create policy "Users clear own notifications" on public.notifications for delete using (auth.uid() = user_id);
+
+-- The search_listings match (0010) for a single row; an empty query matches all
+create or replace function public.listing_matches_search(l public.listings, query text)
+returns boolean
+language sql stable
+set search_path = public, extensions
+set pg_trgm.word_similarity_threshold = 0.5
+as $$
+  select coalesce(trim(query), '') = ''
+    or coalesce(public.listing_search_vector(l.title, l.brand, l.course_code, l.isbn, l.description, l.location)
+      @@ public.listing_search_query(query), false)
+    or lower(trim(query)) <% public.listing_search_text(l.title, l.brand, l.location);
+$$;
+
+-- One alert per user for a new listing, however many of their searches match.
+-- security definer: sellers can't otherwise read or write other users' rows.
+create or replace function public.notify_saved_searches()
+returns trigger
+language plpgsql security definer
+set search_path = public
+as $$
+begin
+  insert into public.notifications (user_id, kind, listing_id, saved_search_id)
+  select distinct on (s.user_id) s.user_id, 'saved_search', new.id, s.id
+  from public.saved_searches s
+  where not s.paused
+    and s.user_id <> new.seller_id
+    and public.listing_matches_filters(new, s.filters)
+    and public.listing_matches_search(new, s.query)
+  order by s.user_id, s.created_at;
+  return null;
+end;
+$$;
+
+drop trigger if exists listings_notify_saved_searches on public.listings;
+create trigger listings_notify_saved_searches
+  after insert on public.listings
+  for each row execute function public.notify_saved_searches();
+
+alter publication supabase_realtime add table public.notifications;
@@ -0,0 +1,90 @@
+-- One row per listing and viewer, recorded when the detail page opens. The
+-- first view is kept, so reopening a listing never counts twice.
+create table if not exists public.listing_views (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  listing_id uuid not null references public.listings(id) on delete cascade,
+  viewer_id uuid not null references auth.users(id) on delete cascade,
+  unique (listing_id, viewer_id)
+);
+
+create index if not exists listing_views_created_at_idx on public.listing_views (created_at desc);
+
+alter table public.listing_views enable row level security;
+
+drop policy if exists "Users see own views" on public.listing_views;
+drop policy if exists "Users record views of others' listings" on public.listing_views;
+drop policy if exists "Users touch own views" on public.listing_views;
+
+create policy "Users see own views" on public.listing_views for select using (auth.uid() = viewer_id);
+-- Sellers opening their own listing don't count
+create policy "Users record views of others' listings" on public.listing_views for insert with check (
+  auth.uid() = viewer_id
+  and not exists (select 1 from public.listings where id = listing_id and seller_id = auth.uid())
+);
+-- The client upserts on (listing_id, viewer_id), which needs update rights
+create policy "Users touch own views" on public.listing_views for update using (auth.uid() = viewer_id);
+
+-- Counts sellers see on their listings, kept by trigger like favorite_count (0011)
+alter table public.listings add column if not exists view_count integer not null default 0;
+alter table public.listings add column if not exists conversation_count integer not null default 0;
+
+update public.listings l
+set conversation_count = (select count(*) from public.conversations c where c.listing_id = l.id);
+
+-- security definer: viewers and buyers can't otherwise update someone else's listing
+create or replace function public.sync_listing_activity_count()
+returns trigger
+language plpgsql security definer
+set search_path = public
+as $$
+begin
+  if tg_table_name = 'listing_views' then
+    update public.listings set view_count = view_count + 1 where id = new.listing_id;
+  elsif new.listing_id is not null then
+    update public.listings set conversation_count = conversation_count + 1 where id = new.listing_id;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists listing_views_sync_count on public.listing_views;
+create trigger listing_views_sync_count
+  after insert on public.listing_views
+  for each row execute function public.sync_listing_activity_count();
+
+drop trigger if exists conversations_sync_count on public.conversations;
+create trigger conversations_sync_count
+  after insert on public.conversations
+  for each row execute function public.sync_listing_activity_count();
+
+-- Listings ranked by recent attention. Each view, favorite and conversation
+-- started in the last two weeks adds its weight, halved every 48 hours of age;
+-- mirrors lib/trending.ts. security definer: favorites and views are only
+-- readable by their owners.
+create or replace function public.trending_listings(category text default null, result_limit integer default 10)
+returns setof public.listings
+language sql stable security definer
+set search_path = public
+as $$
+  with events as (
+    select listing_id, created_at, 1.0 as weight from public.listing_views
+    union all
+    select listing_id, created_at, 3.0 from public.favorites
+    union all
+    select listing_id, created_at, 5.0 from public.conversations where listing_id is not null
+  ),
+  scores as (
+    select listing_id,
+      sum(weight * power(0.5, extract(epoch from (now() - created_at)) / 3600 / 48)) as score
+    from events
+    where created_at > now() - interval '14 days'
+    group by listing_id
+  )
+  select l.*
+  from scores s
+  join public.listings l on l.id = s.listing_id
+  where trending_listings.category is null or l.category = trending_listings.category
+  order by s.score desc, l.created_at desc, l.id desc
+  limit least(greatest(result_limit, 1), 50);
+$$;
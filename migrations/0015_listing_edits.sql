@@ -0,0 +1,3 @@
+-- Set by the client when the seller edits a listing; null until the first
+-- edit. Not a trigger, since the count triggers also update listing rows.
+alter table public.listings add column if not exists updated_at timestamp with time zone;
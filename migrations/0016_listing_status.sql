@@ -0,0 +1,98 @@
+-- Lifecycle of a listing. Sold listings stay on the seller's profile instead of
+-- being deleted; `buyer_id` optionally records who bought (or is buying) it.
+alter table public.listings add column if not exists status text not null default 'available'
+  check (status in ('available', 'pending', 'sold'));
+alter table public.listings add column if not exists buyer_id uuid references auth.users(id) on delete set null;
+alter table public.listings add column if not exists sold_at timestamp with time zone;
+
+create index if not exists listings_seller_status_feed_idx on public.listings (seller_id, status, created_at desc, id desc);
+
+-- Deleting a listing used to take its chats with it (0004)
+alter table public.conversations drop constraint if exists conversations_listing_id_fkey;
+alter table public.conversations add constraint conversations_listing_id_fkey
+  foreign key (listing_id) references public.listings(id) on delete set null;
+
+-- Sold listings leave the feed, so its filters, counts, search and trending
+-- rail skip them too. Same definitions as 0010, 0012 and 0014 otherwise.
+create or replace function public.listing_matches_filters(l public.listings, filters jsonb, except_facet text default null)
+returns boolean
+language sql stable
+as $$
+  select l.status <> 'sold'
+    and (filters->>'category' is null or l.category = filters->>'category')
+    and (except_facet is not distinct from 'price'
+      or ((filters->>'min_price' is null or l.price >= (filters->>'min_price')::numeric)
+        and (filters->>'max_price' is null or l.price <= (filters->>'max_price')::numeric)))
+    and (except_facet is not distinct from 'condition'
+      or coalesce(jsonb_array_length(filters->'conditions'), 0) = 0
+      or l.condition in (select jsonb_array_elements_text(filters->'conditions')))
+    and (except_facet is not distinct from 'size'
+      or coalesce(jsonb_array_length(filters->'sizes'), 0) = 0
+      or upper(trim(l.size)) in (select upper(jsonb_array_elements_text(filters->'sizes'))))
+    and (except_facet is not distinct from 'gender'
+      or coalesce(jsonb_array_length(filters->'genders'), 0) = 0
+      or l.gender in (select jsonb_array_elements_text(filters->'genders')))
+    and (except_facet is not distinct from 'location'
+      or coalesce(jsonb_array_length(filters->'locations'), 0) = 0
+      or l.location in (select jsonb_array_elements_text(filters->'locations')))
+    and (except_facet is not distinct from 'postedWithin'
+      or filters->>'posted_within' is null
+      or l.created_at >= now() - case filters->>'posted_within'
+        when '24h' then interval '24 hours'
+        when '7d' then interval '7 days'
+        else interval '30 days'
+      end)
+    and (filters->>'move_in' is null
+      or (l.lease_start <= (filters->>'move_in')::date and l.lease_end >= (filters->>'move_in')::date))
+    and (filters->>'move_out' is null or l.lease_end >= (filters->>'move_out')::date);
+$$;
+
+create or replace function public.search_listings(query text, result_limit integer default 60)
+returns setof public.listings
+language sql stable
+set search_path = public, extensions
+set pg_trgm.word_similarity_threshold = 0.5
+as $$
+  with q as (
+    select public.listing_search_query(query) as tsq, lower(trim(query)) as raw
+  )
+  select l.*
+  from public.listings l, q
+  where l.status <> 'sold'
+    and ((q.tsq is not null
+        and public.listing_search_vector(l.title, l.brand, l.course_code, l.isbn, l.description, l.location) @@ q.tsq)
+      or q.raw <% public.listing_search_text(l.title, l.brand, l.location))
+  order by
+    coalesce(ts_rank_cd(public.listing_search_vector(l.title, l.brand, l.course_code, l.isbn, l.description, l.location), q.tsq), 0)
+      + word_similarity(q.raw, public.listing_search_text(l.title, l.brand, l.location)) desc,
+    l.created_at desc
+  limit least(greatest(result_limit, 1), 200);
+$$;
+
+create or replace function public.trending_listings(category text default null, result_limit integer default 10)
+returns setof public.listings
+language sql stable security definer
+set search_path = public
+as $$
+  with events as (
+    select listing_id, created_at, 1.0 as weight from public.listing_views
+    union all
+    select listing_id, created_at, 3.0 from public.favorites
+    union all
+    select listing_id, created_at, 5.0 from public.conversations where listing_id is not null
+  ),
+  scores as (
+    select listing_id,
+      sum(weight * power(0.5, extract(epoch from (now() - created_at)) / 3600 / 48)) as score
+    from events
+    where created_at > now() - interval '14 days'
+    group by listing_id
+  )
+  select l.*
+  from scores s
+  join public.listings l on l.id = s.listing_id
+  where l.status <> 'sold'
+    and (trending_listings.category is null or l.category = trending_listings.category)
+  order by s.score desc, l.created_at desc, l.id desc
+  limit least(greatest(result_limit, 1), 50);
+$$;
@@ -0,0 +1,27 @@
+-- Unfinished sell forms. The device keeps the full draft, photos included
+-- (IndexedDB); this copy of the field values lets it be picked up on another
+-- device. Ids are generated by the client so both copies share one.
+create table if not exists public.listing_drafts (
+  id uuid primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  category text not null,
+  -- Raw form values keyed by field name, as the sell form holds them
+  "values" jsonb not null default '{}'::jsonb,
+  photo_count integer not null default 0 check (photo_count >= 0)
+);
+
+create index if not exists listing_drafts_user_id_idx on public.listing_drafts (user_id, updated_at desc);
+
+alter table public.listing_drafts enable row level security;
+
+drop policy if exists "Users see own drafts" on public.listing_drafts;
+drop policy if exists "Users add own drafts" on public.listing_drafts;
+drop policy if exists "Users edit own drafts" on public.listing_drafts;
+drop policy if exists "Users remove own drafts" on public.listing_drafts;
+
+create policy "Users see own drafts" on public.listing_drafts for select using (auth.uid() = user_id);
+create policy "Users add own drafts" on public.listing_drafts for insert with check (auth.uid() = user_id);
+create policy "Users edit own drafts" on public.listing_drafts for update using (auth.uid() = user_id);
+create policy "Users remove own drafts" on public.listing_drafts for delete using (auth.uid() = user_id);
@@ -0,0 +1,249 @@
+-- Listings expire after a per-category lifetime (lib/expiry.ts mirrors
+-- `listing_lifetime`) and drop out of the feed, search and trending rail.
+-- Sellers renew them, and get a reminder a few days before.
+create or replace function public.listing_lifetime(category text)
+returns interval
+language sql immutable
+as $$
+  select case category
+    when 'Textbooks' then interval '90 days'
+    when 'Housing' then interval '60 days'
+    else interval '30 days'
+  end;
+$$;
+
+alter table public.listings add column if not exists expires_at timestamp with time zone;
+-- Last bump: the listing's created_at is moved to this time, putting it back
+-- at the top of the newest-first feed
+alter table public.listings add column if not exists bumped_at timestamp with time zone;
+alter table public.listings add column if not exists expiry_reminded_at timestamp with time zone;
+
+-- Existing listings get at least a week, so their sellers can renew them
+update public.listings
+set expires_at = greatest(created_at + public.listing_lifetime(category), now() + interval '7 days')
+where expires_at is null;
+alter table public.listings alter column expires_at set not null;
+
+create index if not exists listings_expires_at_idx on public.listings (expires_at) where status <> 'sold';
+
+-- New listings always start with their category's full lifetime
+create or replace function public.set_listing_expiry()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.expires_at := new.created_at + public.listing_lifetime(new.category);
+  new.bumped_at := null;
+  new.expiry_reminded_at := null;
+  return new;
+end;
+$$;
+
+drop trigger if exists set_listing_expiry on public.listings;
+create trigger set_listing_expiry before insert on public.listings
+  for each row execute function public.set_listing_expiry();
+
+-- The dates only change through renew_listing and bump_listing, which enforce
+-- the rules; a seller's own update can't push them around
+create or replace function public.guard_listing_dates()
+returns trigger
+language plpgsql
+as $$
+begin
+  if (new.created_at, new.expires_at, new.bumped_at) is distinct from (old.created_at, old.expires_at, old.bumped_at)
+    and coalesce(current_setting('hucksta.listing_dates', true), '') <> 'on' then
+    raise exception 'Listing dates can only be changed by renewing or bumping';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_listing_dates on public.listings;
+create trigger guard_listing_dates before update on public.listings
+  for each row execute function public.guard_listing_dates();
+
+-- Another full lifetime from now. Runs as the caller, so RLS limits it to the
+-- seller's own listings.
+create or replace function public.renew_listing(listing_id uuid)
+returns public.listings
+language plpgsql
+as $$
+declare
+  renewed public.listings;
+begin
+  perform set_config('hucksta.listing_dates', 'on', true);
+  update public.listings l
+  set expires_at = now() + public.listing_lifetime(l.category), expiry_reminded_at = null
+  where l.id = renew_listing.listing_id and l.status <> 'sold'
+  returning l.* into renewed;
+  perform set_config('hucksta.listing_dates', '', true);
+  if renewed.id is null then
+    raise exception 'Listing can''t be renewed';
+  end if;
+  return renewed;
+end;
+$$;
+
+-- Back to the top of the feed without reposting: favorites, chats and views
+-- stay with it. Once every 72 hours, and only while it's listed.
+create or replace function public.bump_listing(listing_id uuid)
+returns public.listings
+language plpgsql
+as $$
+declare
+  target public.listings;
+  bumped public.listings;
+begin
+  select * into target from public.listings l where l.id = bump_listing.listing_id;
+  if target.id is null or target.status = 'sold' or target.expires_at <= now() then
+    raise exception 'Listing can''t be bumped';
+  end if;
+  if target.created_at > now() - interval '72 hours' then
+    raise exception 'Listing can be bumped again %', to_char(target.created_at + interval '72 hours', 'Mon DD at HH24:MI');
+  end if;
+
+  perform set_config('hucksta.listing_dates', 'on', true);
+  update public.listings l
+  set created_at = now(), bumped_at = now()
+  where l.id = target.id
+  returning l.* into bumped;
+  perform set_config('hucksta.listing_dates', '', true);
+  if bumped.id is null then
+    raise exception 'Listing can''t be bumped';
+  end if;
+  return bumped;
+end;
+$$;
+
+alter table public.notifications drop constraint if exists notifications_kind_check;
+alter table public.notifications add constraint notifications_kind_check
+  check (kind in ('saved_search', 'listing_expiring'));
+
+-- One reminder per listing expiring in the next 3 days (until it's renewed).
+-- Signed-in callers only remind themselves; run without a user (pg_cron, the
+-- service role) it covers everyone.
+create or replace function public.remind_expiring_listings()
+returns integer
+language plpgsql security definer
+set search_path = public
+as $$
+declare
+  reminded integer;
+begin
+  with due as (
+    update public.listings l
+    set expiry_reminded_at = now()
+    where l.status <> 'sold'
+      and l.expiry_reminded_at is null
+      and l.expires_at > now()
+      and l.expires_at <= now() + interval '3 days'
+      and (auth.uid() is null or l.seller_id = auth.uid())
+    returning l.id, l.seller_id
+  )
+  insert into public.notifications (user_id, kind, listing_id)
+  select seller_id, 'listing_expiring', id from due;
+  get diagnostics reminded = row_count;
+  return reminded;
+end;
+$$;
+
+revoke execute on function public.remind_expiring_listings() from public, anon;
+grant execute on function public.remind_expiring_listings() to authenticated, service_role;
+
+-- Hourly where pg_cron is enabled; otherwise the app asks on sign-in
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule('remind-expiring-listings', '0 * * * *', 'select public.remind_expiring_listings()');
+  end if;
+end;
+$$;
+
+-- Expired listings leave the feed like sold ones. Same definitions as 0016
+-- otherwise.
+
+create or replace function public.listing_matches_filters(l public.listings, filters jsonb, except_facet text default null)
+returns boolean
+language sql stable
+as $$
+  select l.status <> 'sold'
+    and l.expires_at > now()
+    and (filters->>'category' is null or l.category = filters->>'category')
+    and (except_facet is not distinct from 'price'
+      or ((filters->>'min_price' is null or l.price >= (filters->>'min_price')::numeric)
+        and (filters->>'max_price' is null or l.price <= (filters->>'max_price')::numeric)))
+    and (except_facet is not distinct from 'condition'
+      or coalesce(jsonb_array_length(filters->'conditions'), 0) = 0
+      or l.condition in (select jsonb_array_elements_text(filters->'conditions')))
+    and (except_facet is not distinct from 'size'
+      or coalesce(jsonb_array_length(filters->'sizes'), 0) = 0
+      or upper(trim(l.size)) in (select upper(jsonb_array_elements_text(filters->'sizes'))))
+    and (except_facet is not distinct from 'gender'
+      or coalesce(jsonb_array_length(filters->'genders'), 0) = 0
+      or l.gender in (select jsonb_array_elements_text(filters->'genders')))
+    and (except_facet is not distinct from 'location'
+      or coalesce(jsonb_array_length(filters->'locations'), 0) = 0
+      or l.location in (select jsonb_array_elements_text(filters->'locations')))
+    and (except_facet is not distinct from 'postedWithin'
+      or filters->>'posted_within' is null
+      or l.created_at >= now() - case filters->>'posted_within'
+        when '24h' then interval '24 hours'
+        when '7d' then interval '7 days'
+        else interval '30 days'
+      end)
+    and (filters->>'move_in' is null
+      or (l.lease_start <= (filters->>'move_in')::date and l.lease_end >= (filters->>'move_in')::date))
+    and (filters->>'move_out' is null or l.lease_end >= (filters->>'move_out')::date);
+$$;
+
+create or replace function public.search_listings(query text, result_limit integer default 60)
+returns setof public.listings
+language sql stable
+set search_path = public, extensions
+set pg_trgm.word_similarity_threshold = 0.5
+as $$
+  with q as (
+    select public.listing_search_query(query) as tsq, lower(trim(query)) as raw
+  )
+  select l.*
+  from public.listings l, q
+  where l.status <> 'sold'
+    and l.expires_at > now()
+    and ((q.tsq is not null
+        and public.listing_search_vector(l.title, l.brand, l.course_code, l.isbn, l.description, l.location) @@ q.tsq)
+      or q.raw <% public.listing_search_text(l.title, l.brand, l.location))
+  order by
+    coalesce(ts_rank_cd(public.listing_search_vector(l.title, l.brand, l.course_code, l.isbn, l.description, l.location), q.tsq), 0)
+      + word_similarity(q.raw, public.listing_search_text(l.title, l.brand, l.location)) desc,
+    l.created_at desc
+  limit least(greatest(result_limit, 1), 200);
+$$;
+
+create or replace function public.trending_listings(category text default null, result_limit integer default 10)
+returns setof public.listings
+language sql stable security definer
+set search_path = public
+as $$
+  with events as (
+    select listing_id, created_at, 1.0 as weight from public.listing_views
+    union all
+    select listing_id, created_at, 3.0 from public.favorites
+    union all
+    select listing_id, created_at, 5.0 from public.conversations where listing_id is not null
+  ),
+  scores as (
+    select listing_id,
+      sum(weight * power(0.5, extract(epoch from (now() - created_at)) / 3600 / 48)) as score
+    from events
+    where created_at > now() - interval '14 days'
+    group by listing_id
+  )
+  select l.*
+  from scores s
+  join public.listings l on l.id = s.listing_id
+  where l.status <> 'sold'
+    and l.expires_at > now()
+    and (trending_listings.category is null or l.category = trending_listings.category)
+  order by s.score desc, l.created_at desc, l.id desc
+  limit least(greatest(result_limit, 1), 50);
+$$;
@@ -0,0 +1,67 @@
+-- Every price change a seller makes, oldest first per listing. Rows are
+-- written by the trigger below only.
+create table if not exists public.listing_price_changes (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  listing_id uuid not null references public.listings(id) on delete cascade,
+  old_price numeric(10, 2) not null,
+  new_price numeric(10, 2) not null
+);
+
+create index if not exists listing_price_changes_listing_id_idx on public.listing_price_changes (listing_id, created_at);
+
+alter table public.listing_price_changes enable row level security;
+
+drop policy if exists "Price history is public" on public.listing_price_changes;
+
+create policy "Price history is public" on public.listing_price_changes for select using (true);
+
+-- The price before the latest change, for "was $X" on cards without a join
+alter table public.listings add column if not exists previous_price numeric(10, 2);
+
+create or replace function public.set_previous_price()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.price is distinct from old.price then
+    new.previous_price := old.price;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists set_previous_price on public.listings;
+create trigger set_previous_price before update of price on public.listings
+  for each row execute function public.set_previous_price();
+
+-- Records the change, and on a drop alerts everyone who favorited the listing
+-- while it's still for sale. security definer: the seller can't otherwise
+-- read favorites or write notifications.
+create or replace function public.record_price_change()
+returns trigger
+language plpgsql security definer
+set search_path = public
+as $$
+begin
+  insert into public.listing_price_changes (listing_id, old_price, new_price)
+  values (new.id, old.price, new.price);
+
+  if new.price < old.price and new.status <> 'sold' and new.expires_at > now() then
+    insert into public.notifications (user_id, kind, listing_id)
+    select f.user_id, 'price_drop', new.id
+    from public.favorites f
+    where f.listing_id = new.id and f.user_id <> new.seller_id;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists record_price_change on public.listings;
+create trigger record_price_change after update of price on public.listings
+  for each row when (new.price is distinct from old.price)
+  execute function public.record_price_change();
+
+alter table public.notifications drop constraint if exists notifications_kind_check;
+alter table public.notifications add constraint notifications_kind_check
+  check (kind in ('saved_search', 'listing_expiring', 'price_drop'));
@@ -0,0 +1,9 @@
+-- PostgREST computed field (`?is_expired=eq.false`), so the feed's expiry
+-- cutoff is the server's clock rather than a timestamp in the URL, which
+-- changed on every request and defeated the service worker's feed cache
+create or replace function public.is_expired(listing public.listings)
+returns boolean
+language sql stable
+as $$
+  select listing.expires_at <= now();
+$$;
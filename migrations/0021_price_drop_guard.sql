@@ -0,0 +1,48 @@
+-- previous_price follows the price only. 0019 set it in a trigger on
+-- `update of price`, so an update of previous_price alone skipped it and a
+-- seller could show any "was" price; now every update resets it unless the
+-- price itself changed.
+create or replace function public.set_previous_price()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.price is distinct from old.price then
+    new.previous_price := old.price;
+  else
+    new.previous_price := old.previous_price;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists set_previous_price on public.listings;
+create trigger set_previous_price before update on public.listings
+  for each row execute function public.set_previous_price();
+
+-- Same as 0019, except a favoriter gets no second price_drop for a listing
+-- while the last one is unread or less than a day old, so raising and
+-- lowering the price over and over doesn't spam them
+create or replace function public.record_price_change()
+returns trigger
+language plpgsql security definer
+set search_path = public
+as $$
+begin
+  insert into public.listing_price_changes (listing_id, old_price, new_price)
+  values (new.id, old.price, new.price);
+
+  if new.price < old.price and new.status <> 'sold' and new.expires_at > now() then
+    insert into public.notifications (user_id, kind, listing_id)
+    select f.user_id, 'price_drop', new.id
+    from public.favorites f
+    where f.listing_id = new.id and f.user_id <> new.seller_id
+      and not exists (
+        select 1 from public.notifications n
+        where n.user_id = f.user_id and n.listing_id = new.id and n.kind = 'price_drop'
+          and (n.read_at is null or n.created_at > now() - interval '24 hours')
+      );
+  end if;
+  return null;
+end;
+$$;
@@ -0,0 +1,81 @@
+-- Saves a seller's edit in one transaction: the editable fields, then the
+-- photos in the order given. Entries with an id keep that photo, the others
+-- are new uploads, and photos left out are deleted. Returns the listing, its
+-- photos and the deleted photo rows, whose files the client removes once this
+-- has committed. Runs as the caller, so RLS limits it to the seller.
+create or replace function public.update_listing(listing_id uuid, changes jsonb, photos jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  updated public.listings;
+  removed jsonb;
+begin
+  -- Only the fields the sell form edits; jsonb_populate_record keeps the
+  -- current value of any the changes leave out
+  update public.listings l
+  set (
+    title, brand, size, gender, price, condition, location, description,
+    isbn, course_code, edition, access_code_included,
+    lease_start, lease_end, bedrooms, bathrooms, furnished, roommate_gender,
+    updated_at
+  ) = (
+    select
+      r.title, r.brand, r.size, r.gender, r.price, r.condition, r.location, r.description,
+      r.isbn, r.course_code, r.edition, r.access_code_included,
+      r.lease_start, r.lease_end, r.bedrooms, r.bathrooms, r.furnished, r.roommate_gender,
+      now()
+    from jsonb_populate_record(l, update_listing.changes) r
+  )
+  where l.id = update_listing.listing_id
+  returning l.* into updated;
+  if updated.id is null then
+    raise exception 'Listing was not updated';
+  end if;
+  if exists (
+    select 1
+    from jsonb_array_elements(update_listing.photos) e(photo)
+    where e.photo ? 'id' and not exists (
+      select 1 from public.listing_photos p
+      where p.id = (e.photo->>'id')::uuid and p.listing_id = updated.id
+    )
+  ) then
+    raise exception 'Photo not found on this listing';
+  end if;
+
+  with deleted as (
+    delete from public.listing_photos p
+    where p.listing_id = updated.id
+      and p.id not in (
+        select (e.photo->>'id')::uuid
+        from jsonb_array_elements(update_listing.photos) e(photo)
+        where e.photo ? 'id'
+      )
+    returning p.*
+  )
+  select coalesce(jsonb_agg(to_jsonb(deleted)), '[]'::jsonb) into removed from deleted;
+
+  -- The (listing_id, position) key is deferred, so positions may swap here
+  update public.listing_photos p
+  set position = e.ordinality - 1
+  from jsonb_array_elements(update_listing.photos) with ordinality e(photo, ordinality)
+  where p.listing_id = updated.id and p.id = (e.photo->>'id')::uuid;
+
+  insert into public.listing_photos (listing_id, position, url, storage_path, width, height)
+  select
+    updated.id, e.ordinality - 1, e.photo->>'url', e.photo->>'storage_path',
+    (e.photo->>'width')::integer, (e.photo->>'height')::integer
+  from jsonb_array_elements(update_listing.photos) with ordinality e(photo, ordinality)
+  where not (e.photo ? 'id');
+
+  return jsonb_build_object(
+    'listing', to_jsonb(updated),
+    'photos', (
+      select coalesce(jsonb_agg(to_jsonb(p) order by p.position), '[]'::jsonb)
+      from public.listing_photos p
+      where p.listing_id = updated.id
+    ),
+    'removed', removed
+  );
+end;
+$$;
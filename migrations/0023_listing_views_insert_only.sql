@@ -0,0 +1,3 @@
+-- Repeat views are now inserted with `on conflict do nothing` rather than
+-- upserted, so viewers no longer need to update their rows
+drop policy if exists "Users touch own views" on public.listing_views;
@@ -0,0 +1,121 @@
+// Hucksta service worker. Bump VERSION to drop every cache on the next deploy.
+const VERSION = 'v2';
+const SHELL_CACHE = `hucksta-shell-${VERSION}`;
+const FEED_CACHE = `hucksta-feed-${VERSION}`;
+const IMAGE_CACHE = `hucksta-images-${VERSION}`;
+const CACHES = [SHELL_CACHE, FEED_CACHE, IMAGE_CACHE];
+
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/icons/icon.svg'];
+// Tailwind, fonts, React and supabase-js all load from these
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'esm.sh', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+// Supabase REST paths behind the Marketplace feed
+const FEED_PATHS = ['/rest/v1/listings', '/rest/v1/listing_photos'];
+// Opaque cross-origin images count heavily against storage quota
+const MAX_IMAGES = 60;
+// Each page, category and filter combination is its own response
+const MAX_FEED_RESPONSES = 40;
+
+// Everything index.html references: built assets plus the CDN scripts and styles
+const shellAssets = (html) => {
+  const urls = new Set();
+  for (const [, url] of html.matchAll(/(?:src|href)="([^"]+)"/g)) urls.add(url);
+  for (const [, url] of html.matchAll(/"(https:\/\/esm\.sh\/[^"]+[^/"])"/g)) urls.add(url);
+  for (const [, url] of html.matchAll(/url\('([^']+)'\)/g)) urls.add(url);
+  return [...urls].filter(url => url.startsWith('/') || CDN_HOSTS.includes(new URL(url).hostname));
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.addAll(SHELL_URLS);
+    const html = await (await cache.match('/')).text();
+    // A CDN hiccup shouldn't block installing the worker
+    await Promise.all(shellAssets(html).map(url => cache.add(url).catch(() => undefined)));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => !CACHES.includes(name)).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+const networkFirst = async (request, cacheName, fallbackUrl) => {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(fallbackUrl || request, response.clone());
+    return response;
+  } catch (err) {
+    const cached = await cache.match(fallbackUrl || request);
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+const cacheFirst = async (request, cacheName) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+  return response;
+};
+
+const staleWhileRevalidate = async (request, cacheName) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  const refresh = fetch(request).then((response) => {
+    if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+    return response;
+  });
+  if (cached) {
+    refresh.catch(() => undefined);
+    return cached;
+  }
+  return refresh;
+};
+
+// Oldest entries go first; keys() lists them in insertion order
+const trimCache = async (cacheName, max) => {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - max)).map(key => cache.delete(key)));
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  // Every route is the same SPA shell; fall back to the cached one offline
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, SHELL_CACHE, '/'));
+    return;
+  }
+
+  if (FEED_PATHS.some(path => url.pathname === path)) {
+    event.respondWith(networkFirst(request, FEED_CACHE));
+    event.waitUntil(trimCache(FEED_CACHE, MAX_FEED_RESPONSES));
+    return;
+  }
+
+  if (request.destination === 'image') {
+    event.respondWith(cacheFirst(request, IMAGE_CACHE));
+    event.waitUntil(trimCache(IMAGE_CACHE, MAX_IMAGES));
+    return;
+  }
+
+  if (url.origin === self.location.origin && url.pathname.startsWith('/assets/')) {
+    // Hashed build output never changes under the same name
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+    return;
+  }
+
+  if (CDN_HOSTS.includes(url.hostname) || url.origin === self.location.origin) {
+    event.respondWith(staleWhileRevalidate(request, SHELL_CACHE));
+  }
+});
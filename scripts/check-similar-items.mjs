@@ -0,0 +1,87 @@
+// Checks the "Similar items" scoring rules in lib/similarItems.ts against a
+// handful of hand-made listings. The module is loaded through Vite, which
+// compiles the TypeScript on the way in.
+//
+//   npm run check-similar-items
+import assert from 'node:assert/strict';
+import { createServer } from 'vite';
+
+const DAY = 86_400_000;
+const NOW = Date.now();
+
+const listing = (id, fields = {}) => ({
+  id,
+  title: 'Desk lamp',
+  price: 20,
+  category: 'Furniture',
+  location: 'Student Union',
+  seller_id: 'seller',
+  created_at: new Date(NOW - DAY).toISOString(),
+  expires_at: new Date(NOW + 30 * DAY).toISOString(),
+  status: 'available',
+  photos: [],
+  ...fields
+});
+
+const checks = ({ similarityScore, rankSimilarListings }) => {
+  const target = listing('target', { title: 'IKEA desk lamp', brand: 'IKEA' });
+
+  // Category
+  const sameCategory = listing('same-category', { title: 'Bookshelf', location: 'Library' });
+  const otherCategory = listing('other-category', { title: 'Bookshelf', location: 'Library', category: 'Electronics' });
+  assert.ok(similarityScore(target, sameCategory) > similarityScore(target, otherCategory), 'same category scores higher');
+
+  // Price band: full within 25%, half within 50%, nothing beyond
+  const at = price => similarityScore(target, listing(`price-${price}`, { title: 'Chair', location: 'Library', price }));
+  assert.ok(at(18) > at(12), 'within 25% beats within 50%');
+  assert.ok(at(12) > at(5), 'within 50% beats further off');
+  assert.equal(at(18), at(22), 'the band is symmetric');
+  assert.equal(similarityScore(listing('free-a', { price: 0 }), listing('free-b', { price: 0 })),
+    similarityScore(listing('a', { price: 20 }), listing('b', { price: 20 })), 'free matches free');
+
+  // Scores don't depend on the rest of the pool
+  assert.equal(similarityScore(target, sameCategory), similarityScore(target, sameCategory));
+
+  // Exclusions: the target, the viewer's own, sold and expired listings
+  const close = fields => listing(fields.id, { title: 'IKEA desk lamp', brand: 'IKEA', ...fields });
+  const pool = [
+    target,
+    close({ id: 'viewers-own', seller_id: 'viewer' }),
+    close({ id: 'sold', status: 'sold' }),
+    close({ id: 'expired', expires_at: new Date(NOW - DAY).toISOString() }),
+    close({ id: 'pending', status: 'pending' }),
+    close({ id: 'match' }),
+    close({ id: 'match' }),
+    listing('unrelated', { title: 'Calculus textbook', category: 'Textbooks', price: 90, location: 'Library' })
+  ];
+  const ranked = rankSimilarListings(target, pool, { viewerId: 'viewer' }).map(l => l.id).sort();
+  assert.deepEqual(ranked, ['match', 'pending'], 'only listed, other sellers\' close matches, once each');
+  assert.ok(rankSimilarListings(target, pool).some(l => l.id === 'viewers-own'), 'without a viewer, every seller counts');
+
+  // Ties go to the newest
+  const older = close({ id: 'older', created_at: new Date(NOW - 3 * DAY).toISOString() });
+  const newer = close({ id: 'newer', created_at: new Date(NOW - 2 * DAY).toISOString() });
+  assert.deepEqual(rankSimilarListings(target, [older, newer]).map(l => l.id), ['newer', 'older']);
+  assert.equal(rankSimilarListings(target, [older, newer], { limit: 1 }).length, 1);
+};
+
+const main = async () => {
+  // No dev server or browser, so Vite has no dependencies to pre-bundle
+  const server = await createServer({
+    server: { middlewareMode: true },
+    appType: 'custom',
+    optimizeDeps: { noDiscovery: true, include: [] },
+    logLevel: 'error'
+  });
+  try {
+    checks(await server.ssrLoadModule('/lib/similarItems.ts'));
+    console.log('Similar items: all checks passed.');
+  } finally {
+    await server.close();
+  }
+};
+
+main().catch((err) => {
+  console.error(err.message);
+  process.exit(1);
+});
@@ -0,0 +1,91 @@
+// Applies pending migrations/NNNN_name.sql files in order and records each
+// one in public.schema_migrations. Each file runs in its own transaction.
+//
+//   DATABASE_URL=postgres://… npm run migrate           apply pending
+//   DATABASE_URL=postgres://… npm run migrate -- status  list applied/pending
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import pg from 'pg';
+
+const MIGRATIONS_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../migrations');
+const FILE_PATTERN = /^(\d{4})_([\w-]+)\.sql$/;
+
+// The app reads the version at startup, so anon needs read access
+const BOOTSTRAP_SQL = `
+create table if not exists public.schema_migrations (
+  version integer primary key,
+  name text not null,
+  applied_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+alter table public.schema_migrations enable row level security;
+drop policy if exists "Schema version is public" on public.schema_migrations;
+create policy "Schema version is public" on public.schema_migrations for select using (true);
+`;
+
+const loadMigrations = async () => {
+  const files = (await readdir(MIGRATIONS_DIR)).filter((file) => file.endsWith('.sql')).sort();
+  return Promise.all(files.map(async (file) => {
+    const match = FILE_PATTERN.exec(file);
+    if (!match) throw new Error(`Unexpected migration file name: ${file}`);
+    return {
+      version: Number(match[1]),
+      name: match[2],
+      file,
+      sql: await readFile(path.join(MIGRATIONS_DIR, file), 'utf8')
+    };
+  }));
+};
+
+const main = async () => {
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) {
+    throw new Error('DATABASE_URL is not set (Supabase: Project Settings → Database → Connection string)');
+  }
+
+  const migrations = await loadMigrations();
+  const client = new pg.Client({ connectionString });
+  await client.connect();
+
+  try {
+    await client.query(BOOTSTRAP_SQL);
+    const { rows } = await client.query('select version from public.schema_migrations');
+    const applied = new Set(rows.map((row) => row.version));
+    const pending = migrations.filter((m) => !applied.has(m.version));
+
+    if (process.argv[2] === 'status') {
+      migrations.forEach((m) => console.log(`${applied.has(m.version) ? 'applied' : 'pending'}  ${m.file}`));
+      return;
+    }
+
+    if (pending.length === 0) {
+      console.log('Schema is up to date.');
+      return;
+    }
+
+    for (const migration of pending) {
+      process.stdout.write(`Applying ${migration.file}... `);
+      await client.query('begin');
+      try {
+        await client.query(migration.sql);
+        await client.query(
+          'insert into public.schema_migrations (version, name) values ($1, $2)',
+          [migration.version, migration.name]
+        );
+        await client.query('commit');
+        console.log('done');
+      } catch (err) {
+        await client.query('rollback');
+        console.log('failed');
+        throw err;
+      }
+    }
+  } finally {
+    await client.end();
+  }
+};
+
+main().catch((err) => {
+  console.error(err.message);
+  process.exit(1);
+});
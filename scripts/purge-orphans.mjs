@@ -0,0 +1,106 @@
+// Finds objects in the listings and avatars buckets that nothing refers to
+// any more (photos of deleted listings, replaced avatars, uploads from a
+// publish that failed half way) and deletes them. Lists them unless --apply
+// is given. Objects newer than a day are skipped: they may belong to a
+// listing that is still being saved.
+//
+//   DATABASE_URL=postgres://… npm run purge-orphans             list orphans
+//   DATABASE_URL=postgres://… SUPABASE_URL=https://… SUPABASE_SERVICE_ROLE_KEY=… \
+//     npm run purge-orphans -- --apply                          delete them
+import pg from 'pg';
+
+const GRACE_PERIOD = '24 hours';
+// Storage API limit on prefixes per delete request
+const BATCH_SIZE = 1000;
+
+const LISTINGS_BUCKET = process.env.VITE_LISTINGS_BUCKET || 'listings';
+const AVATARS_BUCKET = process.env.VITE_AVATARS_BUCKET || 'avatars';
+
+// Listing photos are matched on storage_path, or on the URL where 0007
+// couldn't backfill the path. Avatars are referenced by URL from the profile and
+// from the auth user's metadata. URLs are compared on their exact ending rather
+// than with LIKE, where a `_` or `%` in an object name would be a wildcard.
+const ORPHANS_SQL = `
+select o.bucket_id, o.name
+from storage.objects o
+where o.bucket_id = $1
+  and o.created_at < now() - $3::interval
+  and not exists (
+    select 1 from public.listing_photos p
+    where p.storage_path = o.name
+      or right(p.url, length('/' || $1 || '/' || o.name)) = '/' || $1 || '/' || o.name
+  )
+union all
+select o.bucket_id, o.name
+from storage.objects o
+where o.bucket_id = $2
+  and o.created_at < now() - $3::interval
+  and not exists (
+    select 1 from public.profiles p
+    where right(p.avatar_url, length('/' || $2 || '/' || o.name)) = '/' || $2 || '/' || o.name
+  )
+  and not exists (
+    select 1 from auth.users u
+    where right(u.raw_user_meta_data->>'avatar_url', length('/' || $2 || '/' || o.name)) = '/' || $2 || '/' || o.name
+  )
+order by 1, 2;
+`;
+
+// Rows in storage.objects can't be deleted directly, so this goes through the
+// Storage API, which removes the file as well
+const removeObjects = async (bucket, names) => {
+  const url = process.env.SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required with --apply');
+
+  for (let i = 0; i < names.length; i += BATCH_SIZE) {
+    const res = await fetch(`${url.replace(/\/$/, '')}/storage/v1/object/${bucket}`, {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${key}`, apikey: key, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ prefixes: names.slice(i, i + BATCH_SIZE) })
+    });
+    if (!res.ok) throw new Error(`Deleting from ${bucket} failed: ${res.status} ${await res.text()}`);
+  }
+};
+
+const main = async () => {
+  const apply = process.argv.includes('--apply');
+  if (!process.env.DATABASE_URL) throw new Error('DATABASE_URL is not set');
+
+  const client = new pg.Client({ connectionString: process.env.DATABASE_URL });
+  await client.connect();
+  let rows;
+  try {
+    ({ rows } = await client.query(ORPHANS_SQL, [LISTINGS_BUCKET, AVATARS_BUCKET, GRACE_PERIOD]));
+  } finally {
+    await client.end();
+  }
+
+  const byBucket = new Map();
+  for (const { bucket_id, name } of rows) {
+    byBucket.set(bucket_id, [...(byBucket.get(bucket_id) ?? []), name]);
+  }
+
+  if (rows.length === 0) {
+    console.log('No orphaned objects.');
+    return;
+  }
+  for (const [bucket, names] of byBucket) {
+    console.log(`${bucket}: ${names.length} orphaned`);
+    for (const name of names) console.log(`  ${name}`);
+  }
+  if (!apply) {
+    console.log('Dry run; pass --apply to delete them.');
+    return;
+  }
+
+  for (const [bucket, names] of byBucket) {
+    await removeObjects(bucket, names);
+    console.log(`${bucket}: deleted ${names.length}`);
+  }
+};
+
+main().catch((err) => {
+  console.error(err.message);
+  process.exit(1);
+});
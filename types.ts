@@ -1,20 +1,167 @@
+import type { FilterArgs } from './lib/feedFilters';
 
-export type Category = 'Clothing' | 'Furniture' | 'Electronics';
+export type Category = 'Clothing' | 'Furniture' | 'Electronics' | 'Textbooks' | 'Housing';
+
+export type Gender = 'Mens' | 'Womens' | 'Unisex';
+
+export type ListingStatus = 'available' | 'pending' | 'sold';
 
 export interface Listing {
   id: string;
   title: string;
   brand?: string;
   size?: string;
-  gender?: 'Mens' | 'Womens' | 'Unisex';
+  gender?: Gender;
+  // Monthly rent for Housing
   price: number;
-  condition: string;
+  // Not set for Housing
+  condition?: string;
   category: Category;
   location: string;
   description?: string;
-  image_url: string;
+  // Textbooks
+  isbn?: string;
+  course_code?: string;
+  edition?: string;
+  access_code_included?: boolean;
+  // Housing; lease dates are YYYY-MM-DD
+  lease_start?: string;
+  lease_end?: string;
+  bedrooms?: number;
+  bathrooms?: number;
+  furnished?: boolean;
+  roommate_gender?: 'Any' | 'Female' | 'Male';
   seller_id: string;
   created_at: string;
+  status: ListingStatus;
+  // Who bought or is buying it, if the seller picked them; null while available
+  buyer_id?: string | null;
+  sold_at?: string | null;
+  // Last edit by the seller; null if never edited
+  updated_at?: string | null;
+  // Price before the seller's latest change, shown as "was $X" when higher
+  previous_price?: number | null;
+  // Hidden from the feed after this; see lib/expiry.ts
+  expires_at?: string;
+  // Last time the seller bumped it, which also moved created_at
+  bumped_at?: string | null;
+  // Maintained by triggers on favorites, listing_views and conversations
+  favorite_count?: number;
+  view_count?: number;
+  conversation_count?: number;
+  // Ordered by `position`
+  photos: ListingPhoto[];
+}
+
+export type NewListing = Omit<Listing, 'id' | 'created_at' | 'status' | 'buyer_id' | 'sold_at' | 'updated_at' | 'previous_price' | 'expires_at' | 'bumped_at' | 'favorite_count' | 'view_count' | 'conversation_count' | 'photos'>;
+
+export interface ListingPhoto {
+  id: string;
+  listing_id: string;
+  position: number;
+  url: string;
+  storage_path: string | null;
+  width: number | null;
+  height: number | null;
+}
+
+// One entry in a listing's price history (listing_price_changes)
+export interface ListingPriceChange {
+  id: string;
+  created_at: string;
+  listing_id: string;
+  old_price: number;
+  new_price: number;
+}
+
+export type NewListingPhoto = Pick<ListingPhoto, 'url' | 'storage_path' | 'width' | 'height'>;
+
+// A listing's photos after an edit, in display order: kept rows and new uploads
+export type EditedListingPhoto = ListingPhoto | NewListingPhoto;
+
+export type ListingUpdate = Omit<NewListing, 'seller_id' | 'category'>;
+
+export interface Profile {
+  id: string;
+  full_name: string | null;
+  username: string | null;
+  avatar_url: string | null;
+  updated_at?: string;
+}
+
+export interface Favorite {
+  id: string;
+  user_id: string;
+  listing_id: string;
+  created_at?: string;
+}
+
+export interface SavedSearch {
+  id: string;
+  created_at: string;
+  user_id: string;
+  name: string;
+  // Search text; empty for a browse of `filters.category`
+  query: string;
+  filters: FilterArgs;
+  paused: boolean;
+}
+
+export type NewSavedSearch = Pick<SavedSearch, 'user_id' | 'name' | 'query' | 'filters'>;
+
+// An unfinished sell form. `values` holds the raw field values by name;
+// the photos themselves stay on the device (lib/drafts.ts).
+export interface ListingDraft {
+  id: string;
+  created_at?: string;
+  updated_at: string;
+  user_id: string;
+  category: Category;
+  values: Record<string, string>;
+  photo_count: number;
+}
+
+export type NotificationKind = 'saved_search' | 'listing_expiring' | 'price_drop';
+
+export interface AppNotification {
+  id: string;
+  created_at: string;
+  user_id: string;
+  kind: NotificationKind;
+  listing_id: string | null;
+  saved_search_id: string | null;
+  read_at: string | null;
+}
+
+export interface Conversation {
+  id: string;
+  listing_id: string | null;
+  buyer_id: string;
+  seller_id: string;
+  created_at: string;
+}
+
+// A conversation as seen by one participant: one thread per person pair
+export interface ConversationThread extends Conversation {
+  other_user_id: string;
+}
+
+export interface Message {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  text: string;
+  created_at: string;
+}
+
+export interface AuthUser {
+  id: string;
+  email?: string;
+  user_metadata?: Record<string, any>;
+}
+
+export interface Session {
+  user: AuthUser;
 }
 
 export interface User {
@@ -31,4 +178,4 @@ export enum Tab {
   MESSAGES = 'messages',
   SELL = 'sell',
   PROFILE = 'profile'
-}
\ No newline at end of file
+}
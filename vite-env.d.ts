@@ -0,0 +1,17 @@
+/// <reference types="vite/client" />
+
+// Read and validated by lib/config.ts; see .env.example
+interface ImportMetaEnv {
+  readonly VITE_APP_ENV?: string;
+  readonly VITE_BACKEND?: string;
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+  readonly VITE_CAMPUS_NAME?: string;
+  readonly VITE_LISTINGS_BUCKET?: string;
+  readonly VITE_AVATARS_BUCKET?: string;
+  readonly VITE_MAX_PHOTOS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}